@@ -0,0 +1,348 @@
+import { t, isRtl } from '../stores/translationStore';
+
+/**
+ * Interface for chart keyboard options
+ */
+export interface ChartKeyboardOptions<T> {
+    /** Element holding the chart; the live region and the keyboard instructions are added to it */
+    container: HTMLElement;
+    /** Element given the chart role and name: the SVG of D3 charts (default: the container) */
+    root?: Element;
+    /** Name of the chart, read when the focus enters it */
+    label: string;
+    /** Marks of the chart in reading order */
+    marks: T[];
+    /**
+     * Focusable element of a mark. Charts whose marks are not DOM elements (ECharts) leave it out:
+     * the root then keeps the focus and the current mark is highlighted and announced by the callbacks.
+     */
+    getElement?: (mark: T, index: number) => Element | null;
+    /** Stable key of a mark; hierarchical charts use the path from the top level, separated by '/' */
+    getKey: (mark: T) => string;
+    /** Short name of a mark, e.g. "Niger" */
+    getLabel: (mark: T) => string;
+    /** Value announced when the mark gets the focus (default: its label) */
+    getDescription?: (mark: T) => string;
+    /** Line of a mark: the arrows of `groupDirection` move along a line, the other arrows between lines */
+    getGroup?: (mark: T) => string | number;
+    /** Direction of the lines (default: 'horizontal') */
+    groupDirection?: 'horizontal' | 'vertical';
+    /** Marks of two lines with the same alignment face each other, e.g. the same date or type */
+    getAlignment?: (mark: T) => string | number;
+    /** Called when a mark gets the focus, with a pointer event at its center to place a tooltip (null without element) */
+    onFocus?: (mark: T, event: MouseEvent | null) => void;
+    /** Called when a mark loses the focus */
+    onBlur?: (mark: T) => void;
+    /** Enter or Space: drill down into, filter by or list the items of the mark */
+    onActivate?: (mark: T) => void;
+    /** Escape: zoom out */
+    onEscape?: () => void;
+}
+
+/**
+ * Interface for the chart keyboard result
+ */
+export interface UseChartKeyboardResult<T> {
+    /** Replaces the marks of a chart that changed without being redrawn; the focus goes to the mark with the same key */
+    setMarks: (marks: T[]) => void;
+    /** Removes the listeners added to the root */
+    cleanup: () => void;
+}
+
+// Key of the mark focused when Enter or Escape redrew the chart, by chart container
+const pendingFocus = new WeakMap<HTMLElement, string>();
+
+/**
+ * Hidden elements of a chart container: keyboard instructions and live region.
+ * They are kept across redraws, so that screen readers keep following the live region.
+ */
+function getAnnouncer(container: HTMLElement) {
+    let holder = container.querySelector<HTMLDivElement>(':scope > .chart-announcer');
+    if (!holder) {
+        holder = document.createElement('div');
+        holder.className = 'chart-announcer sr-only';
+
+        const instructions = document.createElement('p');
+        instructions.id = `chart-instructions-${Math.random().toString(36).slice(2, 11)}`;
+
+        const liveRegion = document.createElement('p');
+        liveRegion.setAttribute('aria-live', 'polite');
+        liveRegion.setAttribute('aria-atomic', 'true');
+
+        holder.append(instructions, liveRegion);
+        container.appendChild(holder);
+    }
+
+    const [instructions, liveRegion] = Array.from(holder.children) as HTMLParagraphElement[];
+    return { instructions, liveRegion };
+}
+
+/**
+ * Pointer event at the center of an element, for tooltips shown on focus
+ */
+function createFocusEvent(element: Element): MouseEvent {
+    const rect = element.getBoundingClientRect();
+    return new MouseEvent('mousemove', {
+        clientX: rect.left + rect.width / 2,
+        clientY: rect.top + rect.height / 2
+    });
+}
+
+/**
+ * Hook for keyboard navigation and screen-reader support inside a chart.
+ *
+ * One mark at a time is in the tab order (roving focus): the arrow keys move between marks,
+ * Home and End go to the first and last, Enter or Space activates the mark and Escape zooms out.
+ * The focused mark is announced in a live region and can show its tooltip.
+ *
+ * @param options - Configuration options for the keyboard navigation
+ * @returns Object with methods to update and remove the navigation
+ */
+export function useChartKeyboard<T>(options: ChartKeyboardOptions<T>): UseChartKeyboardResult<T> {
+    const {
+        container,
+        root = container,
+        label,
+        getElement,
+        getKey,
+        getLabel,
+        getDescription = getLabel,
+        getGroup,
+        groupDirection = 'horizontal',
+        getAlignment,
+        onFocus,
+        onBlur,
+        onActivate,
+        onEscape
+    } = options;
+
+    let marks: T[] = [];
+    let elements: (Element | null)[] = [];
+    let currentIndex = 0;
+    // Whether the root holds the focus, for charts without mark elements
+    let rootFocused = false;
+
+    const { instructions, liveRegion } = getAnnouncer(container);
+    instructions.textContent = [
+        t('a11y.chart_navigation'),
+        onActivate ? t('a11y.chart_activate') : '',
+        onEscape ? t('a11y.chart_escape') : ''
+    ].filter(Boolean).join(' ');
+
+    // The application role lets screen readers pass the arrow keys to the chart
+    root.setAttribute('role', 'application');
+    root.setAttribute('aria-label', label);
+    root.setAttribute('aria-describedby', instructions.id);
+    if (!getElement) {
+        root.setAttribute('tabindex', '0');
+        root.classList.add('chart-keyboard-root');
+    }
+
+    function announce(index: number) {
+        const mark = marks[index];
+        if (mark === undefined) return;
+        liveRegion.textContent = `${getDescription(mark)}, ${t('a11y.mark_position', { '0': index + 1, '1': marks.length })}`;
+    }
+
+    /**
+     * Sets the marks and their attributes, with the mark of `focusKey` (or the first one) in the tab order
+     */
+    function setMarks(newMarks: T[], focusKey?: string) {
+        marks = newMarks;
+        elements = getElement ? marks.map((mark, index) => getElement(mark, index)) : [];
+        currentIndex = focusKey !== undefined ? findIndex(focusKey) : Math.min(currentIndex, Math.max(0, marks.length - 1));
+
+        elements.forEach((element, index) => {
+            if (!element) return;
+            element.setAttribute('tabindex', index === currentIndex ? '0' : '-1');
+            element.setAttribute('role', onActivate ? 'button' : 'img');
+            element.setAttribute('aria-label', getLabel(marks[index]));
+            element.classList.add('chart-mark');
+        });
+    }
+
+    // Mark with a key, else its closest ancestor (after zooming out), else the first one
+    function findIndex(key: string): number {
+        let path = key;
+        while (path) {
+            const index = marks.findIndex(mark => getKey(mark) === path);
+            if (index >= 0) return index;
+            path = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+        }
+        return 0;
+    }
+
+    function moveTo(index: number) {
+        if (index < 0 || index >= marks.length || index === currentIndex) return;
+
+        if (getElement) {
+            const element = elements[index] as HTMLElement | SVGElement | null;
+            if (!element) return;
+            elements[currentIndex]?.setAttribute('tabindex', '-1');
+            element.setAttribute('tabindex', '0');
+            // The focus handler announces the mark
+            element.focus();
+        } else {
+            onBlur?.(marks[currentIndex]);
+            currentIndex = index;
+            announce(index);
+            onFocus?.(marks[index], null);
+        }
+    }
+
+    // Index of the mark reached by moving `step` marks along the line, or by `step` lines
+    function findTarget(step: number, acrossLines: boolean): number {
+        if (!getGroup) return currentIndex + step;
+
+        const groups = Array.from(new Set(marks.map(getGroup)));
+        const current = marks[currentIndex];
+        const line = marks
+            .map((mark, index) => ({ mark, index }))
+            .filter(({ mark }) => getGroup(mark) === getGroup(current));
+        const position = line.findIndex(({ index }) => index === currentIndex);
+
+        if (!acrossLines) {
+            return line[position + step]?.index ?? -1;
+        }
+
+        const targetGroup = groups[groups.indexOf(getGroup(current)) + step];
+        if (targetGroup === undefined) return -1;
+        const targetLine = marks
+            .map((mark, index) => ({ mark, index }))
+            .filter(({ mark }) => getGroup(mark) === targetGroup);
+        const aligned = getAlignment
+            ? targetLine.find(({ mark }) => getAlignment(mark) === getAlignment(current))
+            : undefined;
+        return (aligned ?? targetLine[Math.min(position, targetLine.length - 1)]).index;
+    }
+
+    // Runs Enter or Escape, giving the focus back to the same mark if the chart is redrawn meanwhile
+    function runAction(action: () => void) {
+        const key = marks[currentIndex] !== undefined ? getKey(marks[currentIndex]) : '';
+        pendingFocus.set(container, key);
+        try {
+            action();
+        } finally {
+            pendingFocus.delete(container);
+        }
+    }
+
+    function handleKeydown(event: Event) {
+        const { key } = event as KeyboardEvent;
+        if (marks.length === 0) return;
+
+        // Arrows towards later marks; the chart runs from right to left in right-to-left languages
+        const next = isRtl() ? 'ArrowLeft' : 'ArrowRight';
+        const previous = isRtl() ? 'ArrowRight' : 'ArrowLeft';
+        const alongX = groupDirection === 'horizontal';
+        let target: number | null = null;
+
+        switch (key) {
+            case next:
+            case previous:
+                target = findTarget(key === next ? 1 : -1, Boolean(getGroup) && !alongX);
+                break;
+            case 'ArrowDown':
+            case 'ArrowUp': {
+                // Down goes to the next line of a horizontal layout, up to the next mark of a vertical one
+                const step = (key === 'ArrowDown') === alongX ? 1 : -1;
+                target = findTarget(step, Boolean(getGroup) && alongX);
+                break;
+            }
+            case 'Home':
+                target = 0;
+                break;
+            case 'End':
+                target = marks.length - 1;
+                break;
+            case 'Enter':
+            case ' ':
+                if (!onActivate) return;
+                event.preventDefault();
+                runAction(() => onActivate(marks[currentIndex]));
+                return;
+            case 'Escape':
+                if (!onEscape) return;
+                event.preventDefault();
+                runAction(onEscape);
+                return;
+            default:
+                return;
+        }
+
+        event.preventDefault();
+        if (target !== null) moveTo(target);
+    }
+
+    // Focus entering a mark element (D3 charts)
+    function handleFocusIn(event: Event) {
+        const index = elements.indexOf(event.target as Element);
+        if (index < 0) return;
+
+        elements[currentIndex]?.setAttribute('tabindex', '-1');
+        elements[index]?.setAttribute('tabindex', '0');
+        currentIndex = index;
+        announce(index);
+
+        // Mouse clicks also focus the marks: only keyboard focus moves the tooltip
+        const element = elements[index] as Element;
+        if (element.matches(':focus-visible')) {
+            onFocus?.(marks[index], createFocusEvent(element));
+        }
+    }
+
+    function handleFocusOut(event: Event) {
+        const index = elements.indexOf(event.target as Element);
+        if (index >= 0) onBlur?.(marks[index]);
+    }
+
+    // Focus on the root itself (charts without mark elements)
+    function handleRootFocus() {
+        rootFocused = true;
+        announce(currentIndex);
+        if (marks[currentIndex] !== undefined) onFocus?.(marks[currentIndex], null);
+    }
+
+    function handleRootBlur() {
+        rootFocused = false;
+        if (marks[currentIndex] !== undefined) onBlur?.(marks[currentIndex]);
+    }
+
+    root.addEventListener('keydown', handleKeydown);
+    if (getElement) {
+        root.addEventListener('focusin', handleFocusIn);
+        root.addEventListener('focusout', handleFocusOut);
+    } else {
+        root.addEventListener('focus', handleRootFocus);
+        root.addEventListener('blur', handleRootBlur);
+    }
+
+    // A chart redrawn by Enter or Escape takes the focus back, on the same mark or its closest ancestor
+    const focusKey = pendingFocus.get(container);
+    setMarks(options.marks, focusKey);
+    if (focusKey !== undefined && getElement) {
+        pendingFocus.delete(container);
+        const active = document.activeElement;
+        if (!active || active === document.body || container.contains(active)) {
+            (elements[currentIndex] as HTMLElement | SVGElement | null)?.focus();
+        }
+    }
+
+    return {
+        setMarks: (newMarks: T[]) => {
+            const key = marks[currentIndex] !== undefined ? getKey(marks[currentIndex]) : undefined;
+            setMarks(newMarks, key);
+            if (rootFocused) {
+                announce(currentIndex);
+                if (marks[currentIndex] !== undefined) onFocus?.(marks[currentIndex], null);
+            }
+        },
+        cleanup: () => {
+            root.removeEventListener('keydown', handleKeydown);
+            root.removeEventListener('focusin', handleFocusIn);
+            root.removeEventListener('focusout', handleFocusOut);
+            root.removeEventListener('focus', handleRootFocus);
+            root.removeEventListener('blur', handleRootBlur);
+        }
+    };
+}
@@ -0,0 +1,44 @@
+import { onMount, onDestroy } from 'svelte';
+import {
+    registerDataSource,
+    type DataColumn,
+    type DataSummaryColumns,
+    type DataTable,
+    type DataValue
+} from '../services/export';
+
+/**
+ * Offers the aggregated table a visualization is drawn from to the "Download data" menu
+ * and to the data table of the chart while the component is mounted.
+ * Must be called during component initialization.
+ *
+ * @param columns Columns of the table, in order, or a function returning them when they depend on the view
+ * @param getRows Returns the current rows, read when the user downloads or opens the table
+ * @param summary Category and value columns of the natural-language summary, or a function returning them
+ */
+export function useDataExport(
+    columns: DataColumn[] | (() => DataColumn[]),
+    getRows: () => Record<string, DataValue>[],
+    summary?: DataSummaryColumns | (() => DataSummaryColumns | undefined)
+) {
+    let unregister: (() => void) | null = null;
+
+    onMount(() => {
+        unregister = registerDataSource({
+            getTable(): DataTable | null {
+                const rows = getRows();
+                if (rows.length === 0) return null;
+                return {
+                    columns: typeof columns === 'function' ? columns() : columns,
+                    rows,
+                    summary: typeof summary === 'function' ? summary() : summary
+                };
+            }
+        });
+    });
+
+    onDestroy(() => {
+        unregister?.();
+        unregister = null;
+    });
+}
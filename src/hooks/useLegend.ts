@@ -1,5 +1,7 @@
 import * as d3 from 'd3';
-import { translate, t } from '../stores/translationStore';
+import { translate, t, isRtl, findTranslation } from '../stores/translationStore';
+import type { TranslationKey } from '../types/translations';
+import { formatNumber } from '../services/formatting';
 
 // Define types for the hook
 export interface LegendItem {
@@ -15,7 +17,7 @@ export interface LegendOptions {
   // Common options
   container: HTMLElement | d3.Selection<any, unknown, null, undefined>;
   title?: string;
-  titleTranslationKey?: string;
+  titleTranslationKey?: TranslationKey;
   items: LegendItem[];
   
   // Style and layout options
@@ -33,8 +35,8 @@ export interface LegendOptions {
   // Translation options
   translateKeys?: {
     itemPrefix?: string;       // Prefix for item key translations (e.g., "lang." or "type.")
-    othersLabel?: string;      // Translation key for "Others" label
-    countLabel?: string;       // Translation key for count label
+    othersLabel?: TranslationKey; // Translation key for "Others" label
+    countLabel?: TranslationKey;  // Translation key for count label
   };
   
   // Responsive options
@@ -77,7 +79,7 @@ export function useLegend(options: LegendOptions): UseLegendResult {
     maxItems = 10,
     showValues = true,
     className = '',
-    valueFormatter = (value) => value.toLocaleString(),
+    valueFormatter = (value) => formatNumber(value),
     translateKeys = {
       itemPrefix: '',
       othersLabel: 'viz.others',
@@ -184,11 +186,7 @@ export function useLegend(options: LegendOptions): UseLegendResult {
       // Get translated label if prefix is provided
       let itemLabel = item.label || item.key;
       if (translateKeys.itemPrefix) {
-        const translatedKey = `${translateKeys.itemPrefix}${item.key}`;
-        const translated = t(translatedKey);
-        if (translated !== translatedKey) {
-          itemLabel = translated;
-        }
+        itemLabel = findTranslation(`${translateKeys.itemPrefix}${item.key}`) ?? itemLabel;
       }
       
       // Define CSS classes based on mobile/desktop and visibility
@@ -336,11 +334,7 @@ export function useLegend(options: LegendOptions): UseLegendResult {
       // Get translated label if prefix is provided
       let itemLabel = item.label || item.key;
       if (translateKeys.itemPrefix) {
-        const translatedKey = `${translateKeys.itemPrefix}${item.key}`;
-        const translated = t(translatedKey);
-        if (translated !== translatedKey) {
-          itemLabel = translated;
-        }
+        itemLabel = findTranslation(`${translateKeys.itemPrefix}${item.key}`) ?? itemLabel;
       }
       
       // Create item group
@@ -448,6 +442,10 @@ export function useLegend(options: LegendOptions): UseLegendResult {
       }
     }
     
+    if (isRtl()) {
+      mirrorSvgLegend(svgSelection, legend, x, y);
+    }
+
     // Store and return the legend selection
     legendElement = legend;
     return legend;
@@ -529,11 +527,7 @@ export function useLegend(options: LegendOptions): UseLegendResult {
       // Get translated label if prefix is provided
       let itemLabel = item.label || item.key;
       if (translateKeys.itemPrefix) {
-        const translatedKey = `${translateKeys.itemPrefix}${item.key}`;
-        const translated = t(translatedKey);
-        if (translated !== translatedKey) {
-          itemLabel = translated;
-        }
+        itemLabel = findTranslation(`${translateKeys.itemPrefix}${item.key}`) ?? itemLabel;
       }
       
       // Create item group
@@ -593,11 +587,45 @@ export function useLegend(options: LegendOptions): UseLegendResult {
       }
     });
     
+    if (isRtl()) {
+      mirrorSvgLegend(svgSelection, legend, x, y);
+    }
+
     // Store and return the legend selection
     legendElement = legend;
     return legend;
   }
 
+  /**
+   * Mirror an SVG legend for right-to-left languages: the legend moves to the opposite
+   * side of the chart and its swatches go after their labels. Labels are flipped back
+   * so that they stay readable and are anchored at their end.
+   */
+  function mirrorSvgLegend(
+    svgSelection: d3.Selection<any, unknown, null, undefined>,
+    legend: d3.Selection<SVGGElement, unknown, null, undefined>,
+    x: number,
+    y: number
+  ) {
+    const legendNode = legend.node();
+    const svgNode = svgSelection.node() as SVGSVGElement | null;
+    if (!legendNode || !svgNode) return;
+
+    const bbox = legendNode.getBBox();
+    const legendWidth = bbox.x + bbox.width;
+    const svgWidth = svgNode.getBoundingClientRect().width;
+    const mirroredX = svgWidth > 0 ? svgWidth - x - legendWidth : x;
+
+    legend.attr('transform', `translate(${mirroredX + legendWidth}, ${y}) scale(-1, 1)`);
+    legend.selectAll<SVGTextElement, unknown>('text').each(function() {
+      const text = d3.select(this);
+      text
+        .attr('x', -(+text.attr('x') || 0))
+        .attr('transform', 'scale(-1, 1)')
+        .attr('text-anchor', 'end');
+    });
+  }
+
   /**
    * Get the approximate width of text using a D3 text element
    */
@@ -1,4 +1,5 @@
 import { onMount, onDestroy } from 'svelte';
+import { isRtl } from '../stores/translationStore';
 
 /**
  * Interface for tooltip options
@@ -47,8 +48,8 @@ export interface TooltipPosition {
 export function useTooltip(options: TooltipOptions = {}) {
     // Default options
     const {
-        backgroundColor = 'rgba(0, 0, 0, 0.8)',
-        color = 'white',
+        backgroundColor = 'var(--chart-tooltip-bg)',
+        color = 'var(--chart-tooltip-text)',
         padding = '8px 12px',
         borderRadius = '4px',
         fontSize = '12px',
@@ -151,12 +152,20 @@ export function useTooltip(options: TooltipOptions = {}) {
         height: number = defaultHeight
     ): TooltipPosition {
         try {
-            let left = event.pageX + offset;
             let top = event.pageY + offset;
-            
-            // Adjust if tooltip would go off screen
-            if (left + width > window.innerWidth) {
+            let left: number;
+
+            // Tooltips open on the reading side of the cursor: right in LTR, left in RTL
+            if (isRtl()) {
                 left = event.pageX - width - offset;
+                if (left < 0) {
+                    left = event.pageX + offset;
+                }
+            } else {
+                left = event.pageX + offset;
+                if (left + width > window.innerWidth) {
+                    left = event.pageX - width - offset;
+                }
             }
             
             if (top + height > window.innerHeight) {
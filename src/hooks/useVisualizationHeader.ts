@@ -10,18 +10,20 @@
  */
 
 import { writable, type Writable } from 'svelte/store';
-import { translate, languageStore } from '../stores/translationStore';
+import { translate, t, languageStore } from '../stores/translationStore';
+import { formatNumber as formatLocaleNumber } from '../services/formatting';
+import type { Language, TranslationKey } from '../types/translations';
 import { get } from 'svelte/store';
 
 export interface VisualizationHeaderConfig {
     /** Base translation key for the title when no data is available */
-    baseTitleKey: string;
+    baseTitleKey: TranslationKey;
     /** Translation key for title with data count (should accept {0} placeholder) */
-    countTitleKey?: string;
+    countTitleKey?: TranslationKey;
     /** Translation key for the description */
-    descriptionKey?: string;
+    descriptionKey?: TranslationKey;
     /** Custom title formatter function for complex titles */
-    customTitleFormatter?: (data: VisualizationHeaderData, lang: 'en' | 'fr') => string;
+    customTitleFormatter?: (data: VisualizationHeaderData, lang: Language) => string;
     /** Whether to format numbers with locale-specific separators */
     formatNumbers?: boolean;
 }
@@ -39,7 +41,7 @@ export interface VisualizationHeaderState {
     /** Current formatted title HTML */
     titleHtml: string;
     /** Current language */
-    currentLang: 'en' | 'fr';
+    currentLang: Language;
     /** Whether to show description */
     showDescription: boolean;
     /** Formatted description text */
@@ -56,7 +58,7 @@ export function useVisualizationHeader(config: VisualizationHeaderConfig) {
     });
 
     // Get current language
-    let currentLang: 'en' | 'fr' = get(languageStore);
+    let currentLang: Language = get(languageStore);
     
     // Subscribe to language changes
     const languageUnsubscribe = languageStore.subscribe((lang) => {
@@ -69,14 +71,7 @@ export function useVisualizationHeader(config: VisualizationHeaderConfig) {
      */
     function formatNumber(num: number): string {
         if (!config.formatNumbers) return num.toString();
-        
-        if (currentLang === 'fr') {
-            // French uses spaces as thousands separator
-            return num.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
-        } else {
-            // English uses commas
-            return num.toLocaleString('en-US');
-        }
+        return formatLocaleNumber(num, undefined, currentLang);
     }
 
     /**
@@ -91,10 +86,9 @@ export function useVisualizationHeader(config: VisualizationHeaderConfig) {
                 newTitle = config.customTitleFormatter(data, currentLang);
             } 
             // Use count-based title if data is available and count title key is provided
+            // (the message formats the count and picks its plural form)
             else if (data.totalCount > 0 && config.countTitleKey) {
-                const formattedCount = formatNumber(data.totalCount);
-                const countTitle = get(translate(config.countTitleKey));
-                newTitle = countTitle.replace('{0}', formattedCount);
+                newTitle = t(config.countTitleKey, { '0': data.totalCount });
             }
             // Fall back to base title
             else {
@@ -173,7 +167,7 @@ export function useVisualizationHeader(config: VisualizationHeaderConfig) {
  * Pre-configured header hook for common visualization patterns
  */
 export function useStandardVisualizationHeader(type: 'country' | 'type' | 'word' | 'timeline' | 'language' | 'index') {
-    const configs = {
+    const configs: Record<typeof type, VisualizationHeaderConfig> = {
         country: {
             baseTitleKey: 'viz.country_distribution_title',
             countTitleKey: 'viz.distribution_items',
@@ -190,24 +184,15 @@ export function useStandardVisualizationHeader(type: 'country' | 'type' | 'word'
             baseTitleKey: 'viz.word_distribution',
             descriptionKey: 'viz.word_distribution_description',
             formatNumbers: true,
-            customTitleFormatter: (data: VisualizationHeaderData, lang: 'en' | 'fr') => {
+            customTitleFormatter: (data: VisualizationHeaderData) => {
                 if (data.totalCount > 0 && data.additionalCount) {
-                    const formattedWordCount = data.additionalCount.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
-                    const wordsText = lang === 'en' ? 'words' : 'mots';
-                    
-                    if (lang === 'en') {
-                        return `Distribution of ${formattedWordCount} ${wordsText} by country and sub-collection`;
-                    } else {
-                        return `Répartition de ${formattedWordCount} ${wordsText} par pays et sous-collection`;
-                    }
+                    return t('viz.word_distribution_count', { '0': data.additionalCount });
                 }
-                return lang === 'en' ? 'Word Distribution' : 'Répartition des mots';
+                return t('viz.word_distribution');
             }
         },
         timeline: {
-            baseTitleKey: 'viz.timeline_distribution_title',
-            countTitleKey: 'viz.timeline_distribution_items',
-            descriptionKey: 'viz.timeline_distribution_description',
+            baseTitleKey: 'tab.timeline',
             formatNumbers: true
         },
         language: {
@@ -1,5 +1,12 @@
 import * as echarts from 'echarts';
+import { get } from 'svelte/store';
 import { getColorPalette } from '../utils/colorPalette';
+import { registerExportSource, createEChartsExportSource } from './export';
+import { formatPercent } from './formatting';
+import { useChartKeyboard, type UseChartKeyboardResult } from '../hooks/useChartKeyboard';
+import { getChartTheme } from '../stores/themeStore';
+import { paletteStore } from '../stores/colorStore';
+import type { Theme } from '../types/theme';
 
 export interface BarChartData {
     key: string;
@@ -9,6 +16,13 @@ export interface BarChartData {
     [key: string]: any;
 }
 
+/**
+ * Parameters given to onBarClick: those of the ECharts click event, of which
+ * keyboard activation only fills the main ones
+ */
+export type BarClickParams = Pick<echarts.DefaultLabelFormatterCallbackParams,
+    'componentType' | 'seriesType' | 'seriesIndex' | 'name' | 'dataIndex' | 'data' | 'value'>;
+
 export interface EChartsBarOptions {
     width?: number;
     height?: number;
@@ -20,9 +34,15 @@ export interface EChartsBarOptions {
     xAxisLabel?: string;
     yAxisLabel?: string;
     valueFormatter?: (value: number) => string;
-    onBarClick?: (params: any) => void;
+    /** Click callback, also run by Enter on the bar selected with the keyboard */
+    onBarClick?: (params: BarClickParams) => void;
     onTooltip?: (params: any) => string;
-    theme?: 'light' | 'dark';
+    /** Theme whose axis, text, grid and tooltip colors the chart uses (default: the active theme) */
+    theme?: Theme;
+    /** Mirror the chart for right-to-left languages: categories from right to left, value axis on the right */
+    rtl?: boolean;
+    /** Name of the chart read by screen readers */
+    ariaLabel?: string;
 }
 
 export class EChartsBarService {
@@ -34,21 +54,26 @@ export class EChartsBarService {
     private isInitialized: boolean = false;
     private isDisposed: boolean = false;
     private resizeTimeout: number | null = null;
+    private unregisterExport: () => void;
+    private keyboard: UseChartKeyboardResult<BarChartData> | null = null;
+    // Bars currently drawn, in order
+    private data: BarChartData[] = [];
 
     constructor(container: HTMLElement, options: EChartsBarOptions = {}) {
         this.container = container;
         this.currentOptions = {
             width: 800,
             height: 400,
-            colors: getColorPalette('professional'),
             responsive: true,
             showGrid: true,
             showLegend: false,
             horizontal: false,
             valueFormatter: (value: number) => value.toString(),
-            theme: 'light',
             ...options
         };
+
+        // Let the download menu export this chart while it exists
+        this.unregisterExport = registerExportSource(createEChartsExportSource(() => this.chart));
     }
 
     /**
@@ -98,6 +123,7 @@ export class EChartsBarService {
             
             // Set options
             this.chart.setOption(option, true);
+            this.updateKeyboard(data);
             this.isInitialized = true;
 
             return this.chart;
@@ -113,10 +139,15 @@ export class EChartsBarService {
     private buildChartOptions(data: BarChartData[]): any {
         const categories = data.map(d => d.key);
         const values = data.map(d => d.value);
-        const colors = this.currentOptions.colors || getColorPalette('primary', data.length);
+        const chartTheme = getChartTheme(this.currentOptions.theme);
+        // Without colors of its own, the chart takes the chosen palette in its theme
+        const colors = this.currentOptions.colors || getColorPalette(get(paletteStore), undefined, chartTheme.theme);
         
         // Check if we're on mobile
         const isMobile = this.container.clientWidth < 768;
+        const rtl = this.currentOptions.rtl === true;
+        const startGap = isMobile ? '15%' : '12%';
+        const endGap = isMobile ? '8%' : '10%';
 
         return {
             color: colors,
@@ -129,18 +160,18 @@ export class EChartsBarService {
                         shadowBlur: 8
                     }
                 },
-                backgroundColor: 'rgba(255, 255, 255, 0.95)',
-                borderColor: 'var(--color-primary-200)',
+                backgroundColor: chartTheme.background,
+                borderColor: chartTheme.axis,
                 borderWidth: 2,
                 borderRadius: 12,
                 textStyle: {
-                    color: 'var(--color-text-primary)',
+                    color: chartTheme.text,
                     fontSize: isMobile ? 12 : 14,
                     fontFamily: 'var(--font-family-base)',
                     fontWeight: 500
                 },
                 padding: [12, 16],
-                extraCssText: 'box-shadow: 0 8px 32px rgba(0, 0, 0, 0.12); backdrop-filter: blur(8px);',
+                extraCssText: `box-shadow: 0 8px 32px rgba(0, 0, 0, 0.12); backdrop-filter: blur(8px); direction: ${rtl ? 'rtl' : 'ltr'};`,
                 formatter: (params: any) => {
                     if (Array.isArray(params)) {
                         params = params[0]; // Take first item if array
@@ -150,52 +181,53 @@ export class EChartsBarService {
                     const colorIndex = params.dataIndex % colors.length;
                     const barColor = colors[colorIndex];
                     
-                    let content = `<div style="font-weight: 600; margin-bottom: 8px; color: var(--color-text-primary);">${params.name}</div>`;
+                    let content = `<div style="font-weight: 600; margin-bottom: 8px; color: ${chartTheme.text};">${params.name}</div>`;
                     content += `<div style="display: flex; align-items: center; gap: 8px;">`;
                     content += `<div style="width: 12px; height: 12px; background: linear-gradient(135deg, ${barColor} 0%, ${this.darkenColor(barColor, 0.2)} 100%); border-radius: 3px; box-shadow: 0 2px 4px rgba(0,0,0,0.2);"></div>`;
-                    content += `<span style="font-weight: 600; color: var(--color-text-primary);">${formatter(params.value)}</span>`;
+                    content += `<span style="font-weight: 600; color: ${chartTheme.text};">${formatter(params.value)}</span>`;
                     if (dataItem.percentage !== undefined) {
-                        content += `<span style="color: var(--color-text-secondary); font-size: 0.9em;">(${dataItem.percentage.toFixed(1)}%)</span>`;
+                        content += `<span style="color: ${chartTheme.textSecondary}; font-size: 0.9em;">(${formatPercent(dataItem.percentage)})</span>`;
                     }
                     content += `</div>`;
                     return content;
                 }
             },
             grid: {
-                left: isMobile ? '15%' : '12%',
-                right: isMobile ? '8%' : '10%',
+                left: rtl ? endGap : startGap,
+                right: rtl ? startGap : endGap,
                 bottom: isMobile ? '28%' : '22%',
                 top: isMobile ? '8%' : '10%',
                 containLabel: true,
                 show: this.currentOptions.showGrid,
-                borderColor: 'var(--color-border-light)',
+                borderColor: chartTheme.grid,
                 borderWidth: 0,
                 backgroundColor: 'rgba(91, 110, 232, 0.02)'
             },
             xAxis: {
                 type: this.currentOptions.horizontal ? 'value' : 'category',
                 data: this.currentOptions.horizontal ? undefined : categories,
+                inverse: rtl,
                 name: this.currentOptions.xAxisLabel,
                 nameLocation: 'middle',
                 nameGap: isMobile ? 45 : 55,
                 nameTextStyle: {
-                    color: 'var(--color-text-primary)',
+                    color: chartTheme.text,
                     fontSize: isMobile ? 12 : 14,
                     fontFamily: 'var(--font-family-base)',
                     fontWeight: 600
                 },
                 axisLine: {
                     lineStyle: {
-                        color: 'var(--color-border-default)',
+                        color: chartTheme.axis,
                         width: 2
                     }
                 },
                 axisLabel: {
-                    color: 'var(--color-text-secondary)',
+                    color: chartTheme.textSecondary,
                     fontSize: isMobile ? 10 : 12,
                     fontFamily: 'var(--font-family-base)',
                     fontWeight: 500,
-                    rotate: this.currentOptions.horizontal ? 0 : (isMobile ? -45 : -35),
+                    rotate: this.currentOptions.horizontal ? 0 : (isMobile ? -45 : -35) * (rtl ? -1 : 1),
                     interval: 0,
                     margin: isMobile ? 12 : 16,
                     formatter: (value: string) => {
@@ -206,7 +238,7 @@ export class EChartsBarService {
                 axisTick: {
                     alignWithLabel: true,
                     lineStyle: {
-                        color: 'var(--color-border-light)',
+                        color: chartTheme.grid,
                         width: 1
                     }
                 }
@@ -214,23 +246,24 @@ export class EChartsBarService {
             yAxis: {
                 type: this.currentOptions.horizontal ? 'category' : 'value',
                 data: this.currentOptions.horizontal ? categories : undefined,
+                position: rtl ? 'right' : 'left',
                 name: this.currentOptions.yAxisLabel,
                 nameLocation: 'middle',
                 nameGap: isMobile ? 45 : 55,
                 nameTextStyle: {
-                    color: 'var(--color-text-primary)',
+                    color: chartTheme.text,
                     fontSize: isMobile ? 12 : 14,
                     fontFamily: 'var(--font-family-base)',
                     fontWeight: 600
                 },
                 axisLine: {
                     lineStyle: {
-                        color: 'var(--color-border-default)',
+                        color: chartTheme.axis,
                         width: 2
                     }
                 },
                 axisLabel: {
-                    color: 'var(--color-text-secondary)',
+                    color: chartTheme.textSecondary,
                     fontSize: isMobile ? 10 : 12,
                     fontFamily: 'var(--font-family-base)',
                     fontWeight: 500,
@@ -239,7 +272,7 @@ export class EChartsBarService {
                 splitLine: {
                     show: true,
                     lineStyle: {
-                        color: 'var(--color-border-light)',
+                        color: chartTheme.grid,
                         type: 'dashed',
                         width: 1,
                         opacity: 0.6
@@ -326,8 +359,58 @@ export class EChartsBarService {
         
         const option = this.buildChartOptions(data);
         this.chart.setOption(option, true);
+        this.updateKeyboard(data);
     }
 
+    /**
+     * Keyboard navigation between the bars: the container takes the focus, the arrows
+     * highlight a bar and show its tooltip, and Enter runs the click callback
+     */
+    private updateKeyboard(data: BarChartData[]): void {
+        this.data = data;
+        if (this.keyboard) {
+            this.keyboard.setMarks(data);
+            return;
+        }
+
+        const chart = this.chart;
+        if (!chart) return;
+
+        const { onBarClick, ariaLabel } = this.currentOptions;
+        const format = (value: number) => (this.currentOptions.valueFormatter || String)(value);
+        const target = (d: BarChartData) => ({ seriesIndex: 0, dataIndex: this.data.indexOf(d) });
+
+        this.keyboard = useChartKeyboard({
+            container: this.container,
+            label: ariaLabel || '',
+            marks: data,
+            getKey: d => d.originalKey ?? d.key,
+            getLabel: d => d.key,
+            getDescription: d => d.percentage !== undefined
+                ? `${d.key}: ${format(d.value)} (${formatPercent(d.percentage)})`
+                : `${d.key}: ${format(d.value)}`,
+            onFocus: d => {
+                chart.dispatchAction({ type: 'highlight', ...target(d) });
+                chart.dispatchAction({ type: 'showTip', ...target(d) });
+            },
+            onBlur: d => {
+                chart.dispatchAction({ type: 'downplay', ...target(d) });
+                chart.dispatchAction({ type: 'hideTip' });
+            },
+            // Same main parameters as a mouse click
+            onActivate: onBarClick && (d => onBarClick({
+                componentType: 'series',
+                seriesType: 'bar',
+                seriesIndex: 0,
+                name: d.key,
+                dataIndex: this.data.indexOf(d),
+                value: d.value,
+                data: d.value
+            }))
+        });
+    }
+
+
     /**
      * Update chart options
      */
@@ -438,6 +521,10 @@ export class EChartsBarService {
     dispose(): void {
         if (this.isDisposed) return;
 
+        this.unregisterExport();
+        this.keyboard?.cleanup();
+        this.keyboard = null;
+
         try {
             // Clear resize timeout
             if (this.resizeTimeout) {
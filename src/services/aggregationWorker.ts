@@ -0,0 +1,154 @@
+/**
+ * Main thread side of the aggregation worker.
+ * The worker receives a copy of the items whenever itemsStore publishes a new dataset
+ * and answers queries tagged with an id. Browsers without module workers run the
+ * same queries on the main thread.
+ */
+import { get } from 'svelte/store';
+import itemsStore from '../stores/itemsStore';
+import type { OmekaItem } from '../types/OmekaItem';
+import type { AggregationQuery, AggregationRequest, AggregationResponse, AggregationResult } from '../types/AggregationQuery';
+import { runAggregationQuery } from '../workers/aggregationQueries';
+
+/**
+ * Rejection reason of queries cancelled through their AbortSignal
+ */
+export class AggregationCancelledError extends Error {
+    constructor() {
+        super('Aggregation query was cancelled');
+        this.name = 'AggregationCancelledError';
+    }
+}
+
+export function isAggregationCancelled(error: unknown): boolean {
+    return error instanceof AggregationCancelledError;
+}
+
+interface PendingQuery {
+    resolve: (result: AggregationResult) => void;
+    reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextQueryId = 1;
+const pendingQueries = new Map<number, PendingQuery>();
+
+// Items index used when queries run on the main thread
+let fallbackItems: OmekaItem[] | null = null;
+let fallbackIndex = new Map<number, OmekaItem>();
+
+function post(message: AggregationRequest) {
+    worker?.postMessage(message);
+}
+
+// Reject every query in flight, used when the worker cannot run
+function rejectPending(error: Error) {
+    pendingQueries.forEach(pending => pending.reject(error));
+    pendingQueries.clear();
+}
+
+function getWorker(): Worker | null {
+    if (worker || workerFailed) return worker;
+
+    if (typeof Worker === 'undefined') {
+        workerFailed = true;
+        return null;
+    }
+
+    try {
+        worker = new Worker(new URL('../workers/aggregation.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+        console.warn('[aggregationWorker] Could not start the worker, aggregating on the main thread:', error);
+        workerFailed = true;
+        return null;
+    }
+
+    worker.onmessage = (event: MessageEvent<AggregationResponse>) => {
+        const message = event.data;
+        const pending = pendingQueries.get(message.id);
+        if (!pending) return;
+
+        pendingQueries.delete(message.id);
+        if (message.type === 'result') {
+            pending.resolve(message.result);
+        } else {
+            pending.reject(new Error(message.message));
+        }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+        console.error('[aggregationWorker] Worker failed, aggregating on the main thread:', event.message);
+        worker?.terminate();
+        worker = null;
+        workerFailed = true;
+        rejectPending(new Error(event.message || 'Aggregation worker failed'));
+    };
+
+    // Keep the worker's copy of the items in sync with the loaded dataset
+    let postedItems: OmekaItem[] | null = null;
+    itemsStore.subscribe(state => {
+        if (state.items !== postedItems) {
+            postedItems = state.items;
+            post({ type: 'setItems', items: state.items });
+        }
+    });
+
+    return worker;
+}
+
+function runOnMainThread(query: AggregationQuery): AggregationResult {
+    const items = get(itemsStore).items;
+    if (items !== fallbackItems) {
+        fallbackItems = items;
+        fallbackIndex = new Map(items.map(item => [item.id, item]));
+    }
+    return runAggregationQuery(fallbackIndex, query);
+}
+
+/**
+ * Runs an aggregation query in the worker
+ * @param query The query to run
+ * @param signal Aborting it drops the query if it has not started and rejects
+ *   the promise with an AggregationCancelledError
+ * @returns The result of the matching useDataProcessing function
+ */
+export function runAggregation<Q extends AggregationQuery>(query: Q, signal?: AbortSignal): Promise<AggregationResult<Q['kind']>> {
+    if (signal?.aborted) {
+        return Promise.reject(new AggregationCancelledError());
+    }
+
+    if (!getWorker()) {
+        try {
+            return Promise.resolve(runOnMainThread(query) as AggregationResult<Q['kind']>);
+        } catch (error) {
+            return Promise.reject(error);
+        }
+    }
+
+    const id = nextQueryId++;
+
+    return new Promise<AggregationResult<Q['kind']>>((resolve, reject) => {
+        const onAbort = () => {
+            if (!pendingQueries.has(id)) return;
+            pendingQueries.delete(id);
+            post({ type: 'cancel', id });
+            reject(new AggregationCancelledError());
+        };
+
+        pendingQueries.set(id, {
+            // The worker answers a query with the result of its kind
+            resolve: result => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(result as AggregationResult<Q['kind']>);
+            },
+            reject: error => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        });
+
+        signal?.addEventListener('abort', onAbort);
+        post({ type: 'query', id, query });
+    });
+}
@@ -203,6 +203,10 @@ export function renderAxis(selection: d3.Selection<SVGGElement, unknown, null, u
   
   // Call the axis on the selection
   selection.call(axis);
+
+  // Theme colors instead of the currentColor D3 draws axes with
+  selection.selectAll('.domain, .tick line').attr('stroke', 'var(--chart-axis)');
+  selection.selectAll('.tick text').attr('fill', 'var(--chart-text-secondary)');
   
   // Apply text rotation if specified
   if (rotate) {
@@ -402,7 +406,7 @@ export function addGrid(
       .attr('x2', (d: any) => xScale(d) as number)
       .attr('y1', 0)
       .attr('y2', height)
-      .attr('stroke', '#e0e0e0')
+      .attr('stroke', 'var(--chart-grid)')
       .attr('stroke-dasharray', '3,3');
   }
   
@@ -420,7 +424,7 @@ export function addGrid(
       .attr('x2', width)
       .attr('y1', (d: any) => yScale(d) as number)
       .attr('y2', (d: any) => yScale(d) as number)
-      .attr('stroke', '#e0e0e0')
+      .attr('stroke', 'var(--chart-grid)')
       .attr('stroke-dasharray', '3,3');
   }
   
@@ -491,8 +495,8 @@ export function createTooltipContainer(
     .style('position', 'absolute')
     .style('pointer-events', 'none')
     .style('opacity', 0)
-    .style('background', styles.background || 'rgba(0, 0, 0, 0.8)')
-    .style('color', styles.color || 'white')
+    .style('background', styles.background || 'var(--chart-tooltip-bg)')
+    .style('color', styles.color || 'var(--chart-tooltip-text)')
     .style('padding', styles.padding || '8px 12px')
     .style('border-radius', styles.borderRadius || '4px')
     .style('font-size', styles.fontSize || '12px')
@@ -0,0 +1,179 @@
+import { t, findTranslation } from '../../stores/translationStore';
+import { formatNumber } from '../formatting';
+import { triggerDownload, type ExportContext } from './exportFormats';
+
+export type DataFormat = 'csv' | 'json' | 'tsv';
+
+export type DataValue = string | number | null;
+
+/**
+ * A column of an exported table
+ */
+export interface DataColumn {
+    /** Raw column name, also the key of the rows */
+    key: string;
+    /** Translation key of the header, defaults to export.column.<key> */
+    labelKey?: string;
+    /** Translation key prefix of the values shown in the page, e.g. "country." (files keep the raw values) */
+    valuePrefix?: string;
+}
+
+/**
+ * Columns the natural-language summary of a table ranks: the sums of `value` by `category`
+ */
+export interface DataSummaryColumns {
+    category: string;
+    value: string;
+    /** Only rows with a value in this column are summarized, e.g. the observed periods of a timeline with a forecast */
+    where?: string;
+}
+
+/**
+ * The aggregated table a chart is drawn from
+ */
+export interface DataTable {
+    columns: DataColumn[];
+    rows: Record<string, DataValue>[];
+    summary?: DataSummaryColumns;
+}
+
+/**
+ * What a visualization hands to the "Download data" menu
+ */
+export interface DataSource {
+    /** The current table, or null while there is nothing to export */
+    getTable(): DataTable | null;
+}
+
+// Registered sources, most recent last
+const sources: DataSource[] = [];
+
+/**
+ * Makes the data of a visualization available to the download menu while it is mounted
+ * @returns A function removing the source
+ */
+export function registerDataSource(source: DataSource): () => void {
+    sources.push(source);
+    return () => {
+        const index = sources.indexOf(source);
+        if (index !== -1) sources.splice(index, 1);
+    };
+}
+
+/**
+ * The data source of the visualization shown on screen
+ */
+export function getDataSource(): DataSource | null {
+    return sources[sources.length - 1] ?? null;
+}
+
+/**
+ * Header of a column in the current language
+ */
+export function getColumnLabel(column: DataColumn): string {
+    return findTranslation(column.labelKey ?? `export.column.${column.key}`) ?? column.key;
+}
+
+/**
+ * A value as shown in the page: numbers in the format of the language, translated names
+ */
+export function formatDataValue(column: DataColumn, value: DataValue): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return formatNumber(value);
+    return (column.valuePrefix && findTranslation(`${column.valuePrefix}${value}`)) || value;
+}
+
+function getHeader(column: DataColumn, translatedHeaders: boolean): string {
+    return translatedHeaders ? getColumnLabel(column) : column.key;
+}
+
+// Lines describing the export, written above the table
+function getHeaderBlock(context: ExportContext): string[] {
+    return [
+        context.title,
+        context.filters.length > 0
+            ? `${t('export.filters')}: ${context.filters.join(' · ')}`
+            : t('export.no_filters'),
+        context.source,
+        t('export.exported_on', { '0': context.exportedAt })
+    ].filter(Boolean);
+}
+
+function escapeCsv(value: DataValue): string {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Tabs and line breaks would break the columns, spreadsheets have no escaping for them
+function escapeTsv(value: DataValue): string {
+    if (value === null || value === undefined) return '';
+    return String(value).replace(/[\t\r\n]+/g, ' ');
+}
+
+/**
+ * Serializes a table with the export context
+ * @param table The table to serialize
+ * @param format csv, json or tsv
+ * @param context Title, filters, source and date of the export
+ * @param translatedHeaders Column headers in the current language instead of raw names
+ * @returns The file content
+ */
+export function formatDataTable(
+    table: DataTable,
+    format: DataFormat,
+    context: ExportContext,
+    translatedHeaders: boolean
+): string {
+    const headers = table.columns.map(column => getHeader(column, translatedHeaders));
+
+    if (format === 'json') {
+        return JSON.stringify({
+            title: context.title,
+            filters: context.filters,
+            source: context.source,
+            exportedAt: context.exportedAt,
+            columns: table.columns.map((column, index) => ({ key: column.key, label: headers[index] })),
+            rows: table.rows.map(row => Object.fromEntries(
+                table.columns.map((column, index) => [translatedHeaders ? headers[index] : column.key, row[column.key] ?? null])
+            ))
+        }, null, 2);
+    }
+
+    const separator = format === 'csv' ? ',' : '\t';
+    const escape = format === 'csv' ? escapeCsv : escapeTsv;
+    const lines = [
+        // Header block, commented so that it is easy to skip when reading the table
+        ...getHeaderBlock(context).map(line => escape(`# ${line}`)),
+        '',
+        headers.map(escape).join(separator),
+        ...table.rows.map(row => table.columns.map(column => escape(row[column.key] ?? null)).join(separator))
+    ];
+    return lines.join('\r\n');
+}
+
+/**
+ * Downloads the table of a data source
+ */
+export function downloadData(
+    source: DataSource,
+    format: DataFormat,
+    context: ExportContext,
+    translatedHeaders: boolean
+) {
+    const table = source.getTable();
+    if (!table || table.rows.length === 0) throw new Error('Nothing to export');
+
+    const content = formatDataTable(table, format, context, translatedHeaders);
+    const types: Record<DataFormat, string> = {
+        csv: 'text/csv;charset=utf-8',
+        json: 'application/json;charset=utf-8',
+        tsv: 'text/tab-separated-values;charset=utf-8'
+    };
+    // The byte order mark makes Excel read CSV and TSV files as UTF-8
+    const parts = format === 'json' ? [content] : ['\uFEFF', content];
+
+    const url = URL.createObjectURL(new Blob(parts, { type: types[format] }));
+    triggerDownload(url, `${context.fileName}-data.${format}`);
+    URL.revokeObjectURL(url);
+}
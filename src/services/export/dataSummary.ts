@@ -0,0 +1,61 @@
+import { t, findTranslation } from '../../stores/translationStore';
+import { formatList, formatPercent } from '../formatting';
+import { getColumnLabel, formatDataValue, type DataTable } from './dataExport';
+
+// Categories named before the remaining ones are grouped
+const NAMED_CATEGORIES = 4;
+
+/**
+ * Natural-language summary of a table in the current language, e.g. "Burkina Faso has the most
+ * items (42%), followed by Niger (30%), Benin (12%) and Togo (8%). The 3 other values make up the
+ * remaining 8%." Read with the data table and used as the alt text of exported charts.
+ * @returns The summary, or an empty string for tables without summary columns
+ */
+export function summarizeDataTable(table: DataTable): string {
+    const { summary } = table;
+    if (!summary) return '';
+
+    const categoryColumn = table.columns.find(column => column.key === summary.category);
+    const valueColumn = table.columns.find(column => column.key === summary.value);
+    if (!categoryColumn || !valueColumn) return '';
+
+    // Sum the values of each category: a table may have several rows per category (e.g. per year)
+    const totals = new Map<string, number>();
+    const { where } = summary;
+    table.rows.forEach(row => {
+        if (where && (row[where] === null || row[where] === undefined)) return;
+        const category = row[categoryColumn.key];
+        const value = row[valueColumn.key];
+        if (category === null || category === undefined || typeof value !== 'number') return;
+        const label = formatDataValue(categoryColumn, category);
+        totals.set(label, (totals.get(label) || 0) + value);
+    });
+
+    const ranked = Array.from(totals).filter(([, value]) => value > 0).sort((a, b) => b[1] - a[1]);
+    const total = ranked.reduce((sum, [, value]) => sum + value, 0);
+    if (ranked.length === 0 || total === 0) return t('summary.empty');
+
+    const share = (value: number) => formatPercent(value / total * 100);
+    // "items" / "d'éléments": the measure as it reads after "the most"
+    const measure = findTranslation(`summary.measure.${valueColumn.key}`) ?? getColumnLabel(valueColumn).toLowerCase();
+    const [first, ...next] = ranked.slice(0, NAMED_CATEGORIES);
+
+    const sentences = [next.length > 0
+        ? t('summary.first_followed', {
+            '0': first[0],
+            '1': measure,
+            '2': share(first[1]),
+            '3': formatList(next.map(([label, value]) => `${label} (${share(value)})`))
+        })
+        : t('summary.first', { '0': first[0], '1': measure, '2': share(first[1]) })];
+
+    const others = ranked.slice(NAMED_CATEGORIES);
+    if (others.length > 0) {
+        sentences.push(t('summary.others', {
+            '0': others.length,
+            '1': share(others.reduce((sum, [, value]) => sum + value, 0))
+        }));
+    }
+
+    return sentences.join(' ');
+}
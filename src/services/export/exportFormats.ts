@@ -0,0 +1,323 @@
+import { get } from 'svelte/store';
+import type { jsPDF } from 'jspdf';
+import { t, languageStore, isRtl } from '../../stores/translationStore';
+import { formatDate } from '../formatting';
+import { filterStore } from '../../stores/filterStore';
+import { getFilterLabels } from '../../utils/filterLabels';
+import { ITEM_SITE_URL } from '../../utils/itemLinks';
+import type { ExportSource } from './exportSources';
+import { getDataSource } from './dataExport';
+import { summarizeDataTable } from './dataSummary';
+import { addTitleToSvg, addDescriptionToSvg } from './svgStyles';
+
+export type ExportFormat = 'svg' | 'png' | 'pdf';
+
+/** Resolutions offered for PNG and PDF exports */
+export const EXPORT_DPI_OPTIONS = [96, 150, 300, 600];
+
+// Screens render charts at 96 CSS pixels per inch
+const CSS_DPI = 96;
+
+/**
+ * Context printed around the chart and used for the file name
+ */
+export interface ExportContext {
+    title: string;
+    /** Active filters, one label per selected value or range */
+    filters: string[];
+    /** Data source line */
+    source: string;
+    /** Localized export date */
+    exportedAt: string;
+    fileName: string;
+    /** Summary of the data of the chart in the current language, its alt text */
+    description: string;
+}
+
+// Helper function to sanitize a string for use as a filename
+function sanitizeFilename(name: string): string {
+    // Replace invalid filename characters with a dash
+    let sanitized = name.toLowerCase()
+        .replace(/[<>:"/\\|?*\x00-\x1F]/g, '-') // Remove invalid filename chars
+        .replace(/\s+/g, '-')                   // Replace spaces with dashes
+        .replace(/&/g, 'and')                   // Replace ampersand with 'and'
+        .replace(/--+/g, '-')                   // Collapse multiple dashes to single dash
+        .replace(/^-+|-+$/g, '');               // Remove leading/trailing dashes
+
+    // Trim the length to avoid too long filenames
+    if (sanitized.length > 50) {
+        sanitized = sanitized.substring(0, 50);
+    }
+
+    // Ensure we don't end with a dash
+    return sanitized.replace(/-+$/g, '');
+}
+
+/**
+ * Collects the title of the visible visualization, the active filters, the export date
+ * and the summary of the chart data
+ */
+export function getExportContext(): ExportContext {
+    // textContent drops the HTML of titles such as "<i>1 234</i> items"
+    const titleElement = document.querySelector('.visualization-header h2');
+    const title = titleElement?.textContent?.replace(/\s+/g, ' ').trim() || '';
+    const tabName = document.querySelector('.tab-item.active')?.textContent?.trim() || 'visualization';
+    const lang = get(languageStore);
+    const table = getDataSource()?.getTable();
+
+    return {
+        title,
+        filters: getFilterLabels(get(filterStore), lang).map(filter => filter.label),
+        source: t('export.source', { '0': ITEM_SITE_URL }),
+        exportedAt: formatDate(new Date(), { year: 'numeric', month: 'long', day: 'numeric' }, lang),
+        fileName: `iwac-${sanitizeFilename(title || tabName)}`,
+        description: table ? summarizeDataTable(table) : ''
+    };
+}
+
+function getBackgroundColor(): string {
+    const docStyles = getComputedStyle(document.documentElement);
+    return docStyles.getPropertyValue('--color-bg-page').trim() || '#ffffff';
+}
+
+/**
+ * Downloads a blob or data URL under the given file name
+ */
+export function triggerDownload(url: string, fileName: string) {
+    const downloadLink = document.createElement('a');
+    downloadLink.href = url;
+    downloadLink.download = fileName;
+    document.body.appendChild(downloadLink);
+    downloadLink.click();
+    document.body.removeChild(downloadLink);
+}
+
+// CRC-32 as used by PNG chunks
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Records the resolution in a PNG (pHYs chunk) so that image editors and
+ * word processors size it correctly
+ * @param dataUrl PNG data URL from a canvas
+ * @param dpi Dots per inch to record
+ * @returns The PNG bytes
+ */
+function setPngResolution(dataUrl: string, dpi: number): Uint8Array<ArrayBuffer> {
+    const binary = atob(dataUrl.split(',')[1]);
+    const png = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) png[i] = binary.charCodeAt(i);
+
+    // pHYs: pixels per metre on both axes, unit = metre
+    const pixelsPerMetre = Math.round(dpi / 0.0254);
+    const chunk = new Uint8Array(21);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, 9);
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4);
+    view.setUint32(8, pixelsPerMetre);
+    view.setUint32(12, pixelsPerMetre);
+    chunk[16] = 1;
+    view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+    // Insert after the signature (8 bytes) and the IHDR chunk (25 bytes)
+    const headerEnd = 33;
+    const result = new Uint8Array(png.length + chunk.length);
+    result.set(png.subarray(0, headerEnd), 0);
+    result.set(chunk, headerEnd);
+    result.set(png.subarray(headerEnd), headerEnd + chunk.length);
+    return result;
+}
+
+/**
+ * Downloads the chart as a standalone SVG with its title and the summary of its data as description
+ */
+export function downloadSvg(source: ExportSource, context: ExportContext) {
+    const markup = source.toSvg();
+    if (!markup) throw new Error('Nothing to export');
+
+    const svg = new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement as unknown as SVGElement;
+    // Before the title, which goes first
+    if (context.description) {
+        addDescriptionToSvg(svg, context.description);
+    }
+    if (context.title) {
+        addTitleToSvg(svg, context.title);
+    }
+
+    const url = URL.createObjectURL(new Blob(
+        [new XMLSerializer().serializeToString(svg)],
+        { type: 'image/svg+xml;charset=utf-8' }
+    ));
+    triggerDownload(url, `${context.fileName}.svg`);
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads the chart as a PNG rendered at the chosen resolution
+ */
+export async function downloadPng(source: ExportSource, context: ExportContext, dpi: number) {
+    const dataUrl = await source.toPng(dpi / CSS_DPI, getBackgroundColor());
+    if (!dataUrl) throw new Error('Nothing to export');
+
+    const url = URL.createObjectURL(new Blob([setPngResolution(dataUrl, dpi)], { type: 'image/png' }));
+    triggerDownload(url, `${context.fileName}.png`);
+    URL.revokeObjectURL(url);
+}
+
+// Characters of the WinAnsi encoding, the only ones the standard PDF fonts can draw
+const STANDARD_FONT_TEXT = /^[\u0020-\u007e\u00a0-\u00ff€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]*$/;
+const MM_PER_PT = 25.4 / 72;
+// Resolution of the text the browser draws for the PDF
+const TEXT_IMAGE_DPI = 300;
+
+interface PdfTextOptions {
+    /** Edge the text is aligned on, in mm */
+    x: number;
+    /** Top of the text block, in mm */
+    top: number;
+    align: 'left' | 'right';
+    /** Writing direction of the text */
+    rtl: boolean;
+    /** Width the text wraps at, in mm */
+    maxWidth: number;
+    /** Font size in points */
+    fontSize: number;
+    bold?: boolean;
+    /** Gray level, from 0 (black) to 255 */
+    color: number;
+}
+
+function getPdfLineHeight(pdf: jsPDF, fontSize: number): number {
+    return fontSize * MM_PER_PT * pdf.getLineHeightFactor();
+}
+
+/**
+ * Writes a block of text wrapped to the given width. Helvetica only covers Latin scripts:
+ * other text, such as Arabic, is drawn by the browser with the page font and added as an image
+ * @returns Height of the block in mm
+ */
+function addPdfText(pdf: jsPDF, text: string, options: PdfTextOptions): number {
+    const lineHeight = getPdfLineHeight(pdf, options.fontSize);
+
+    if (STANDARD_FONT_TEXT.test(text)) {
+        pdf.setFont('helvetica', options.bold ? 'bold' : 'normal');
+        pdf.setFontSize(options.fontSize);
+        pdf.setTextColor(options.color);
+        const lines: string[] = pdf.splitTextToSize(text, options.maxWidth);
+        pdf.text(lines, options.x, options.top, { align: options.align, baseline: 'top' });
+        return lines.length * lineHeight;
+    }
+
+    const pxPerMm = TEXT_IMAGE_DPI / 25.4;
+    const fontPx = options.fontSize * MM_PER_PT * pxPerMm;
+    const linePx = lineHeight * pxPerMm;
+    const font = `${options.bold ? 'bold ' : ''}${fontPx}px ${getComputedStyle(document.body).fontFamily}`;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) return 0;
+
+    // Wrap the words to the width of the block
+    context.font = font;
+    const maxWidthPx = options.maxWidth * pxPerMm;
+    const lines: string[] = [];
+    text.split(' ').forEach(word => {
+        const line = lines.length > 0 ? `${lines[lines.length - 1]} ${word}` : '';
+        if (line && context.measureText(line).width <= maxWidthPx) {
+            lines[lines.length - 1] = line;
+        } else {
+            lines.push(word);
+        }
+    });
+    const textWidth = Math.max(...lines.map(line => context.measureText(line).width));
+
+    canvas.width = Math.ceil(Math.min(textWidth, maxWidthPx));
+    canvas.height = Math.ceil(lines.length * linePx);
+    // Resizing the canvas resets its drawing state
+    context.font = font;
+    context.fillStyle = `rgb(${options.color}, ${options.color}, ${options.color})`;
+    context.textBaseline = 'top';
+    context.direction = options.rtl ? 'rtl' : 'ltr';
+    context.textAlign = options.align;
+    const lineX = options.align === 'right' ? canvas.width : 0;
+    lines.forEach((line, index) => {
+        context.fillText(line, lineX, index * linePx + (linePx - fontPx) / 2);
+    });
+
+    const width = canvas.width / pxPerMm;
+    const left = options.align === 'right' ? options.x - width : options.x;
+    pdf.addImage(canvas.toDataURL('image/png'), 'PNG', left, options.top, width, canvas.height / pxPerMm);
+    return canvas.height / pxPerMm;
+}
+
+/**
+ * Downloads a single A4 landscape page with the title, the active filters,
+ * the chart at the chosen resolution, the data source and the export date
+ */
+export async function downloadPdf(source: ExportSource, context: ExportContext, dpi: number) {
+    const size = source.getSize();
+    const dataUrl = await source.toPng(dpi / CSS_DPI, getBackgroundColor());
+    if (!dataUrl || !size) throw new Error('Nothing to export');
+
+    // jsPDF is only needed here, keep it out of the main bundle
+    const { jsPDF } = await import('jspdf');
+    const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const margin = 15;
+    const contentWidth = pageWidth - margin * 2;
+    const rtl = isRtl();
+    // Header lines start at the right edge of the page in right-to-left languages
+    const startX = rtl ? pageWidth - margin : margin;
+    const endX = rtl ? margin : pageWidth - margin;
+    const startAlign = rtl ? 'right' : 'left';
+    const endAlign = rtl ? 'left' : 'right';
+    let y = margin;
+
+    y += addPdfText(pdf, context.title || context.fileName, {
+        x: startX, top: y, align: startAlign, rtl, maxWidth: contentWidth, fontSize: 16, bold: true, color: 0
+    }) + 2;
+
+    const filterText = context.filters.length > 0
+        ? `${t('export.filters')}: ${context.filters.join(' · ')}`
+        : t('export.no_filters');
+    y += addPdfText(pdf, filterText, {
+        x: startX, top: y, align: startAlign, rtl, maxWidth: contentWidth, fontSize: 9, color: 90
+    }) + 4;
+
+    // Footer: data source and export date, on a single line at the bottom of the page
+    const footerTop = pageHeight - margin - getPdfLineHeight(pdf, 8);
+    const footerWidth = contentWidth / 2;
+    addPdfText(pdf, context.source, {
+        x: startX, top: footerTop, align: startAlign, rtl, maxWidth: footerWidth, fontSize: 8, color: 90
+    });
+    addPdfText(pdf, t('export.exported_on', { '0': context.exportedAt }), {
+        x: endX, top: footerTop, align: endAlign, rtl, maxWidth: footerWidth, fontSize: 8, color: 90
+    });
+
+    // Fit the chart between the header and the footer, keeping its proportions
+    const availableHeight = footerTop - 4 - y;
+    const scale = Math.min(contentWidth / size.width, availableHeight / size.height);
+    const imageWidth = size.width * scale;
+    const imageHeight = size.height * scale;
+    pdf.addImage(dataUrl, 'PNG', margin + (contentWidth - imageWidth) / 2, y, imageWidth, imageHeight);
+
+    pdf.save(`${context.fileName}.pdf`);
+}
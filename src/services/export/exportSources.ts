@@ -0,0 +1,202 @@
+import * as echarts from 'echarts';
+import { inlineStyles, fixVisualizationStyling, ensureSvgBackground } from './svgStyles';
+
+/**
+ * What the active visualization can hand to the export formats
+ */
+export interface ExportSource {
+    /** Sources registered by chart services win over the generic SVG lookup of BaseVisualization */
+    priority: number;
+    /** Size of the chart in CSS pixels, or null when nothing is rendered */
+    getSize(): { width: number; height: number } | null;
+    /** Standalone SVG markup of the chart */
+    toSvg(): string | null;
+    /** PNG data URL rendered at pixelRatio times the CSS size */
+    toPng(pixelRatio: number, background: string): Promise<string | null>;
+}
+
+export const SVG_SOURCE_PRIORITY = 0;
+export const CHART_SOURCE_PRIORITY = 10;
+
+// Registered sources, most recent last
+const sources: ExportSource[] = [];
+
+/**
+ * Makes a chart available to the download menu while it is mounted
+ * @returns A function removing the source
+ */
+export function registerExportSource(source: ExportSource): () => void {
+    sources.push(source);
+    return () => {
+        const index = sources.indexOf(source);
+        if (index !== -1) sources.splice(index, 1);
+    };
+}
+
+/**
+ * The source of the visualization shown on screen: the most recent one with the highest
+ * priority that has something rendered
+ */
+export function getExportSource(): ExportSource | null {
+    let best: ExportSource | null = null;
+    sources.forEach(source => {
+        if (source.getSize() && (!best || source.priority >= best.priority)) {
+            best = source;
+        }
+    });
+    return best;
+}
+
+/**
+ * Draws SVG markup on a canvas and returns it as a PNG data URL
+ */
+export function rasterizeSvg(
+    markup: string,
+    width: number,
+    height: number,
+    pixelRatio: number,
+    background: string
+): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+        const image = new Image();
+
+        image.onload = () => {
+            try {
+                const canvas = document.createElement('canvas');
+                canvas.width = Math.round(width * pixelRatio);
+                canvas.height = Math.round(height * pixelRatio);
+                const context = canvas.getContext('2d');
+                if (!context) throw new Error('Canvas 2D context is not available');
+
+                context.fillStyle = background;
+                context.fillRect(0, 0, canvas.width, canvas.height);
+                context.drawImage(image, 0, 0, canvas.width, canvas.height);
+                resolve(canvas.toDataURL('image/png'));
+            } catch (error) {
+                reject(error);
+            } finally {
+                URL.revokeObjectURL(url);
+            }
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Could not render the SVG'));
+        };
+        image.src = url;
+    });
+}
+
+/**
+ * Source for D3 charts: the largest SVG element in the visualization, with styles inlined
+ * @param getContainer Returns the element holding the chart
+ */
+export function createSvgExportSource(getContainer: () => HTMLElement | null | undefined): ExportSource {
+    function getSvgElement(): SVGSVGElement | null {
+        const svgs = Array.from(getContainer()?.querySelectorAll('svg') ?? []);
+        let largest: SVGSVGElement | null = null;
+        let largestArea = 0;
+        svgs.forEach(svg => {
+            const { width, height } = svg.getBoundingClientRect();
+            if (width * height > largestArea) {
+                largest = svg;
+                largestArea = width * height;
+            }
+        });
+        return largest;
+    }
+
+    const source: ExportSource = {
+        priority: SVG_SOURCE_PRIORITY,
+
+        getSize() {
+            const svg = getSvgElement();
+            if (!svg) return null;
+            const { width, height } = svg.getBoundingClientRect();
+            return { width: Math.round(width), height: Math.round(height) };
+        },
+
+        toSvg() {
+            const svg = getSvgElement();
+            const size = source.getSize();
+            if (!svg || !size) return null;
+
+            // Clone the SVG to avoid modifying the original
+            const clonedSvg = svg.cloneNode(true) as SVGSVGElement;
+            clonedSvg.setAttribute('width', String(size.width));
+            clonedSvg.setAttribute('height', String(size.height));
+            inlineStyles(clonedSvg);
+            fixVisualizationStyling(clonedSvg);
+            ensureSvgBackground(clonedSvg);
+            return new XMLSerializer().serializeToString(clonedSvg);
+        },
+
+        async toPng(pixelRatio, background) {
+            const markup = source.toSvg();
+            const size = source.getSize();
+            if (!markup || !size) return null;
+            return rasterizeSvg(markup, size.width, size.height, pixelRatio, background);
+        }
+    };
+
+    return source;
+}
+
+/**
+ * Source for ECharts charts, whichever renderer they use
+ * @param getChart Returns the chart instance, which services may recreate
+ */
+export function createEChartsExportSource(getChart: () => echarts.ECharts | null): ExportSource {
+    function getLiveChart(): echarts.ECharts | null {
+        const chart = getChart();
+        return chart && !chart.isDisposed() ? chart : null;
+    }
+
+    function usesSvgRenderer(chart: echarts.ECharts): boolean {
+        return (chart.getZr().painter as { type?: string }).type === 'svg';
+    }
+
+    const source: ExportSource = {
+        priority: CHART_SOURCE_PRIORITY,
+
+        getSize() {
+            const chart = getLiveChart();
+            return chart ? { width: chart.getWidth(), height: chart.getHeight() } : null;
+        },
+
+        toSvg() {
+            const chart = getLiveChart();
+            if (!chart) return null;
+            if (usesSvgRenderer(chart)) {
+                return chart.renderToSVGString();
+            }
+
+            // Canvas charts are drawn again with the SVG renderer, off screen
+            const offscreen = echarts.init(null, null, {
+                renderer: 'svg',
+                ssr: true,
+                width: chart.getWidth(),
+                height: chart.getHeight()
+            });
+            try {
+                offscreen.setOption({ ...chart.getOption(), animation: false });
+                return offscreen.renderToSVGString();
+            } finally {
+                offscreen.dispose();
+            }
+        },
+
+        async toPng(pixelRatio, background) {
+            const chart = getLiveChart();
+            if (!chart) return null;
+            if (!usesSvgRenderer(chart)) {
+                return chart.getDataURL({ type: 'png', pixelRatio, backgroundColor: background });
+            }
+            const markup = source.toSvg();
+            if (!markup) return null;
+            return rasterizeSvg(markup, chart.getWidth(), chart.getHeight(), pixelRatio, background);
+        }
+    };
+
+    return source;
+}
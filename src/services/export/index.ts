@@ -0,0 +1,26 @@
+// Chart export: visualizations register an ExportSource, the download menu
+// turns the active one into SVG, PNG or PDF
+export {
+    registerExportSource,
+    getExportSource,
+    createSvgExportSource,
+    createEChartsExportSource
+} from './exportSources';
+export type { ExportSource } from './exportSources';
+export {
+    EXPORT_DPI_OPTIONS,
+    getExportContext,
+    downloadSvg,
+    downloadPng,
+    downloadPdf
+} from './exportFormats';
+export type { ExportFormat, ExportContext } from './exportFormats';
+export {
+    registerDataSource,
+    getDataSource,
+    downloadData,
+    getColumnLabel,
+    formatDataValue
+} from './dataExport';
+export type { DataFormat, DataColumn, DataSummaryColumns, DataTable, DataSource, DataValue } from './dataExport';
+export { summarizeDataTable } from './dataSummary';
@@ -0,0 +1,134 @@
+/**
+ * Numbers, dates and relative times in the locale of the interface language.
+ * Every function formats for the current language unless another one is given,
+ * so components re-run them when languageStore changes.
+ */
+
+import * as d3 from 'd3';
+import { derived } from 'svelte/store';
+import { languageStore, getLocale } from '../stores/translationStore';
+import type { Language } from '../types/translations';
+import {
+    getNumberFormat,
+    getDateTimeFormat,
+    getRelativeTimeFormat,
+    getListFormat
+} from '../utils/intlFormat';
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions, language?: Language): string {
+    return getNumberFormat(getLocale(language), options).format(value);
+}
+
+/**
+ * Short form of large numbers for axes and badges: "12K", "1.2M" / "12 k", "1,2 M"
+ */
+export function formatCompactNumber(value: number, language?: Language): string {
+    return formatNumber(value, { notation: 'compact', maximumFractionDigits: 1 }, language);
+}
+
+/**
+ * Formats a percentage expressed from 0 to 100: "12.5%" / "12,5 %"
+ * @param fractionDigits Maximum number of decimals (default: 1)
+ */
+export function formatPercent(percentage: number, fractionDigits = 1, language?: Language): string {
+    return formatNumber(percentage / 100, { style: 'percent', maximumFractionDigits: fractionDigits }, language);
+}
+
+/**
+ * Formats a date, a timestamp or a date string
+ * @param options Parts of the date to show (default: medium date style, "Mar 5, 2024" / "5 mars 2024")
+ */
+export function formatDate(
+    date: Date | number | string,
+    options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' },
+    language?: Language
+): string {
+    return getDateTimeFormat(getLocale(language), options).format(new Date(date));
+}
+
+/**
+ * Formats a month as e.g. "April 2024" / "avril 2024"
+ */
+export function formatMonth(date: Date, language?: Language): string {
+    return formatDate(date, { month: 'long', year: 'numeric' }, language);
+}
+
+// Largest unit first, with the number of seconds in it
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+    ['year', 365 * 24 * 3600],
+    ['month', 30 * 24 * 3600],
+    ['week', 7 * 24 * 3600],
+    ['day', 24 * 3600],
+    ['hour', 3600],
+    ['minute', 60],
+    ['second', 1]
+];
+
+/**
+ * Formats the time between a date and now in the largest whole unit: "5 minutes ago", "yesterday", "in 2 days"
+ * @param now Reference date (default: the current time)
+ */
+export function formatRelativeTime(date: Date | number | string, now: Date = new Date(), language?: Language): string {
+    const seconds = (new Date(date).getTime() - now.getTime()) / 1000;
+    const [unit, size] = RELATIVE_TIME_UNITS.find(([, size]) => Math.abs(seconds) >= size) ?? ['second', 1];
+    return getRelativeTimeFormat(getLocale(language), { numeric: 'auto' }).format(Math.round(seconds / size), unit);
+}
+
+/**
+ * Joins values into a sentence list: "Niger, Benin and Togo" / "Niger, Bénin et Togo"
+ */
+export function formatList(values: string[], language?: Language): string {
+    return getListFormat(getLocale(language), { style: 'long', type: 'conjunction' }).format(values);
+}
+
+// d3 time locales built from the Intl month and day names, by locale
+const timeLocales = new Map<string, d3.TimeLocaleObject>();
+
+function getTimeLocale(locale: string): d3.TimeLocaleObject {
+    let timeLocale = timeLocales.get(locale);
+    if (!timeLocale) {
+        const names = (dates: Date[], options: Intl.DateTimeFormatOptions) =>
+            dates.map(date => getDateTimeFormat(locale, options).format(date));
+        const months = d3.range(12).map(month => new Date(2000, month, 1));
+        // 2 January 2000 was a Sunday, the first day d3 expects
+        const days = d3.range(7).map(day => new Date(2000, 0, 2 + day));
+        const dayPeriod = (hour: number) => getDateTimeFormat(locale, { hour: 'numeric', hour12: true })
+            .formatToParts(new Date(2000, 0, 1, hour))
+            .find(part => part.type === 'dayPeriod')?.value ?? (hour < 12 ? 'AM' : 'PM');
+
+        // The name lists have the 7 days and 12 months d3 expects
+        timeLocale = d3.timeFormatLocale({
+            dateTime: '%x %X',
+            date: '%Y-%m-%d',
+            time: '%H:%M:%S',
+            periods: [dayPeriod(1), dayPeriod(13)],
+            days: names(days, { weekday: 'long' }),
+            shortDays: names(days, { weekday: 'short' }),
+            months: names(months, { month: 'long' }),
+            shortMonths: names(months, { month: 'short' })
+        } as d3.TimeLocaleDefinition);
+        timeLocales.set(locale, timeLocale);
+    }
+    return timeLocale;
+}
+
+/**
+ * d3 time formatter whose month and day names (%b, %B, %a, %A) are those of the language
+ * @param specifier A d3-time-format specifier, e.g. "%b '%y"
+ */
+export function getTimeFormat(specifier: string, language?: Language): (date: Date) => string {
+    return getTimeLocale(getLocale(language)).format(specifier);
+}
+
+/**
+ * The formatting functions bound to the current language, for component markup:
+ * `{$formatter.number(count)}` updates when the language changes.
+ */
+export const formatter = derived(languageStore, language => ({
+    number: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(value, options, language),
+    compact: (value: number) => formatCompactNumber(value, language),
+    percent: (percentage: number, fractionDigits?: number) => formatPercent(percentage, fractionDigits, language),
+    date: (date: Date | number | string, options?: Intl.DateTimeFormatOptions) => formatDate(date, options, language),
+    month: (date: Date) => formatMonth(date, language),
+    relativeTime: (date: Date | number | string, now?: Date) => formatRelativeTime(date, now, language)
+}));
@@ -0,0 +1,76 @@
+/**
+ * IndexedDB persistence of the items.json snapshot.
+ * Every function resolves instead of throwing when IndexedDB is unavailable
+ * (private browsing, old browsers), so callers can always fall back to the network.
+ */
+
+const DB_NAME = 'iwac-overview';
+const DB_VERSION = 1;
+const STORE_NAME = 'datasets';
+const ITEMS_KEY = 'items';
+
+/**
+ * A cached snapshot of items.json with the HTTP validators it was served with
+ */
+export interface CachedDataset {
+    /** Parsed content of items.json, validated again when read */
+    data: unknown;
+    etag: string | null;
+    lastModified: string | null;
+    /** ISO timestamp of the last time the server confirmed or sent this snapshot */
+    refreshedAt: string;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                request.result.createObjectStore(STORE_NAME);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Reads the cached items.json snapshot
+ * @returns The snapshot, or null if there is none or IndexedDB is unavailable
+ */
+export async function readCachedDataset(): Promise<CachedDataset | null> {
+    try {
+        const db = await openDatabase();
+        return await new Promise<CachedDataset | null>((resolve, reject) => {
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(ITEMS_KEY);
+            request.onsuccess = () => resolve((request.result as CachedDataset | undefined) ?? null);
+            request.onerror = () => reject(request.error);
+        }).finally(() => db.close());
+    } catch (error) {
+        console.warn('[itemsCache] Could not read the cached dataset:', error);
+        return null;
+    }
+}
+
+/**
+ * Stores an items.json snapshot, replacing the previous one
+ * @param dataset The snapshot to store
+ */
+export async function writeCachedDataset(dataset: CachedDataset): Promise<void> {
+    try {
+        const db = await openDatabase();
+        await new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction(STORE_NAME, 'readwrite');
+            transaction.objectStore(STORE_NAME).put(dataset, ITEMS_KEY);
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        }).finally(() => db.close());
+    } catch (error) {
+        console.warn('[itemsCache] Could not cache the dataset:', error);
+    }
+}
@@ -1,7 +1,12 @@
 import * as d3 from 'd3';
+import { get } from 'svelte/store';
 import { D3Service } from './d3Service';
 import { useLegend, type LegendItem } from '../hooks/useLegend';
+import { useChartKeyboard } from '../hooks/useChartKeyboard';
 import { getColorPalette } from '../utils/colorPalette';
+import { activeTheme } from '../stores/themeStore';
+import { paletteStore } from '../stores/colorStore';
+import { formatNumber, formatPercent } from './formatting';
 
 /**
  * Interface for pie chart data items
@@ -38,6 +43,10 @@ export interface PieChartOptions {
   onMouseEnter?: (event: MouseEvent, d: d3.PieArcDatum<PieChartDataItem>) => void;
   onMouseMove?: (event: MouseEvent, d: d3.PieArcDatum<PieChartDataItem>) => void;
   onMouseLeave?: (event: MouseEvent, d: d3.PieArcDatum<PieChartDataItem>) => void;
+  // Click callback, also run by Enter on a focused slice
+  onClick?: (event: MouseEvent, d: d3.PieArcDatum<PieChartDataItem>) => void;
+  // Name of the chart read by screen readers (default: the legend title)
+  ariaLabel?: string;
   // Animation settings
   animationDuration?: number;
   // Hover effect settings
@@ -75,7 +84,6 @@ const DEFAULT_OPTIONS: Partial<PieChartOptions> = {
   margin: { top: 20, right: 20, bottom: 20, left: 20 },
   innerRadius: 0, // 0 for pie chart, > 0 for donut chart
   responsive: true,
-  colorScheme: getColorPalette('primary'), // Use modern color palette
   animationDuration: 500,
   hoverEffectEnabled: true,
   hoverRadiusIncrease: 10,
@@ -94,8 +102,8 @@ export function createPieChart(
   data: PieChartDataItem[],
   options: PieChartOptions
 ): PieChartResult {
-  // Merge default options with provided options
-  const config = { ...DEFAULT_OPTIONS, ...options };
+  // Merge default options with provided options; the default colors are the chosen palette in the active theme
+  const config = { ...DEFAULT_OPTIONS, colorScheme: getColorPalette(get(paletteStore), undefined, get(activeTheme)), ...options };
   const {
     container,
     width = container.clientWidth,
@@ -187,7 +195,7 @@ export function createPieChart(
     .enter()
     .append('path')
     .attr('class', 'pie-segment pie-slice-modern cursor-pointer')
-    .attr('d', arc as any)
+    .attr('d', arc)
     .attr('fill', d => colorFunction(d.data.key))
     .attr('stroke', 'var(--color-bg-card)')
     .attr('stroke-width', 2);
@@ -196,10 +204,10 @@ export function createPieChart(
   if (hoverEffectEnabled) {
     segments
       .on('mouseenter', function(event, d) {
-        d3.select(this)
+        d3.select<SVGPathElement, d3.PieArcDatum<PieChartDataItem>>(this)
           .transition()
           .duration(200)
-          .attr('d', hoverArc as any);
+          .attr('d', hoverArc);
         
         if (config.onMouseEnter) {
           config.onMouseEnter(event, d as d3.PieArcDatum<PieChartDataItem>);
@@ -211,10 +219,10 @@ export function createPieChart(
         }
       })
       .on('mouseleave', function(event, d) {
-        d3.select(this)
+        d3.select<SVGPathElement, d3.PieArcDatum<PieChartDataItem>>(this)
           .transition()
           .duration(200)
-          .attr('d', arc as any);
+          .attr('d', arc);
         
         if (config.onMouseLeave) {
           config.onMouseLeave(event, d as d3.PieArcDatum<PieChartDataItem>);
@@ -222,6 +230,48 @@ export function createPieChart(
       });
   }
 
+  // Add click handler
+  if (config.onClick) {
+    segments.on('click', (event, d) => {
+      config.onClick?.(event, d as d3.PieArcDatum<PieChartDataItem>);
+    });
+  }
+
+  // Segment drawn for a slice (exiting segments keep the data of the previous slices)
+  const segmentOf = (d: d3.PieArcDatum<PieChartDataItem>) =>
+    pieGroup.selectAll<SVGPathElement, d3.PieArcDatum<PieChartDataItem>>('path.pie-segment')
+      .filter(segment => segment === d);
+
+  // Keyboard navigation between slices: focus has the hover effect and runs the hover callbacks, Enter the click one
+  const keyboard = useChartKeyboard<d3.PieArcDatum<PieChartDataItem>>({
+    container,
+    root: svg.node() ?? undefined,
+    label: config.ariaLabel || config.legendTitle || '',
+    marks: pieData,
+    getElement: d => segmentOf(d).node(),
+    getKey: d => d.data.key,
+    getLabel: d => d.data.label || d.data.key,
+    getDescription: d => {
+      // The angle of a slice is its share of the total
+      const percentage = d.data.percentage ?? (d.endAngle - d.startAngle) / (2 * Math.PI) * 100;
+      return `${d.data.label || d.data.key}: ${formatNumber(d.data.value)} (${formatPercent(percentage)})`;
+    },
+    onFocus: (d, event) => {
+      if (!event) return;
+      if (hoverEffectEnabled) {
+        segmentOf(d).transition().duration(200).attr('d', hoverArc);
+      }
+      config.onMouseEnter?.(event, d);
+    },
+    onBlur: d => {
+      if (hoverEffectEnabled) {
+        segmentOf(d).transition().duration(200).attr('d', arc);
+      }
+      config.onMouseLeave?.(new MouseEvent('mouseleave'), d);
+    },
+    onActivate: config.onClick && (d => config.onClick?.(new MouseEvent('click'), d))
+  });
+
   // Add labels if enabled
   if (showLabels) {
     pieGroup.selectAll('text')
@@ -231,7 +281,7 @@ export function createPieChart(
       .attr('transform', d => {
         // Only show labels for segments with sufficient angle
         return (d.endAngle - d.startAngle) * (180 / Math.PI) >= labelMinAngle
-          ? `translate(${labelArc.centroid(d as any)})`
+          ? `translate(${labelArc.centroid(d)})`
           : '';
       })
       .attr('dy', '0.35em')
@@ -348,8 +398,8 @@ export function createPieChart(
       // Add value text if available
       if (item.value !== undefined) {
         const formattedValue = isMobile ? 
-          item.value.toLocaleString() : 
-          `${item.value.toLocaleString()} (${item.percentage?.toFixed(1)}%)`;
+          formatNumber(item.value) : 
+          `${formatNumber(item.value)} (${formatPercent(item.percentage ?? 0)})`;
         
         if (isMobile) {
           // For mobile, add value next to the label
@@ -361,7 +411,7 @@ export function createPieChart(
             .attr('fill', 'var(--color-text-secondary, #666)')
             .attr('font-size', '11px')
             .attr('font-family', 'var(--font-family-base, sans-serif)')
-            .text(`(${item.value.toLocaleString()})`);
+            .text(`(${formatNumber(item.value)})`);
         } else {
           // For desktop, add value below the label
           itemGroup.append('text')
@@ -424,20 +474,18 @@ export function createPieChart(
       .data(updatedPieData);
 
     // Remove old segments
-    updatedSegments.exit()
+    updatedSegments.exit<d3.PieArcDatum<PieChartDataItem>>()
       .transition()
       .duration(animationDuration)
-      .attrTween('d', function(this: SVGPathElement, d: any) {
-        // Create a properly typed target state
-        const datumTyped = d as d3.PieArcDatum<PieChartDataItem>;
-        const targetAngle = datumTyped.endAngle;
+      .attrTween('d', function(d) {
+        const targetAngle = d.endAngle;
         const targetState: d3.PieArcDatum<PieChartDataItem> = {
-          ...datumTyped,
+          ...d,
           startAngle: targetAngle,
           endAngle: targetAngle
         };
         
-        const interpolate = d3.interpolate(datumTyped, targetState);
+        const interpolate = d3.interpolate(d, targetState);
         return function(t) {
           return arc(interpolate(t)) as string;
         };
@@ -451,7 +499,7 @@ export function createPieChart(
       .attr('fill', d => colorFunction(d.data.key))
       .attr('stroke', 'var(--color-bg-card)')
       .attr('stroke-width', 2)
-      .attr('d', arc as any)
+      .attr('d', arc)
       .style('opacity', 0)
       .transition()
       .duration(animationDuration)
@@ -462,7 +510,7 @@ export function createPieChart(
       .transition()
       .duration(animationDuration)
       .attrTween('d', function(d) {
-        const currentArc = this as any;
+        const currentArc = this as SVGPathElement & { __data__: d3.PieArcDatum<PieChartDataItem> };
         const currentData = currentArc.__data__;
         const interpolate = d3.interpolate(currentData, d);
         return function(t) {
@@ -475,10 +523,10 @@ export function createPieChart(
     if (hoverEffectEnabled) {
       pieGroup.selectAll<SVGPathElement, d3.PieArcDatum<PieChartDataItem>>('path')
         .on('mouseenter', function(event, d) {
-          d3.select(this)
+          d3.select<SVGPathElement, d3.PieArcDatum<PieChartDataItem>>(this)
             .transition()
             .duration(200)
-            .attr('d', hoverArc as any);
+            .attr('d', hoverArc);
           
           if (config.onMouseEnter) {
             config.onMouseEnter(event, d);
@@ -490,10 +538,10 @@ export function createPieChart(
           }
         })
         .on('mouseleave', function(event, d) {
-          d3.select(this)
+          d3.select<SVGPathElement, d3.PieArcDatum<PieChartDataItem>>(this)
             .transition()
             .duration(200)
-            .attr('d', arc as any);
+            .attr('d', arc);
           
           if (config.onMouseLeave) {
             config.onMouseLeave(event, d);
@@ -501,9 +549,20 @@ export function createPieChart(
         });
     }
 
+    // Update click handlers
+    if (config.onClick) {
+      pieGroup.selectAll<SVGPathElement, d3.PieArcDatum<PieChartDataItem>>('path')
+        .on('click', (event, d) => {
+          config.onClick?.(event, d);
+        });
+    }
+
+    // Keep the keyboard navigation on the new slices
+    keyboard.setMarks(updatedPieData);
+
     // Update labels if enabled
     if (showLabels) {
-      const updatedLabels = pieGroup.selectAll('text')
+      const updatedLabels = pieGroup.selectAll<SVGTextElement, d3.PieArcDatum<PieChartDataItem>>('text')
         .data(updatedPieData);
 
       // Remove old labels
@@ -516,12 +575,12 @@ export function createPieChart(
         .attr('text-anchor', 'middle')
         .style('font-size', '12px')
         .style('fill', 'var(--color-text-primary, #333)')
-        .merge(updatedLabels as any)
+        .merge(updatedLabels)
         .transition()
         .duration(animationDuration)
         .attr('transform', d => {
           return (d.endAngle - d.startAngle) * (180 / Math.PI) >= labelMinAngle
-            ? `translate(${labelArc.centroid(d as any)})`
+            ? `translate(${labelArc.centroid(d)})`
             : '';
         })
         .text(d => d.data.key)
@@ -623,8 +682,8 @@ export function createPieChart(
         // Add value text if available
         if (item.value !== undefined) {
           const formattedValue = isMobile ? 
-            item.value.toLocaleString() : 
-            `${item.value.toLocaleString()} (${item.percentage?.toFixed(1)}%)`;
+            formatNumber(item.value) : 
+            `${formatNumber(item.value)} (${formatPercent(item.percentage ?? 0)})`;
           
           if (isMobile) {
             // For mobile, add value next to the label
@@ -636,7 +695,7 @@ export function createPieChart(
               .attr('fill', 'var(--color-text-secondary, #666)')
               .attr('font-size', '11px')
               .attr('font-family', 'var(--font-family-base, sans-serif)')
-              .text(`(${item.value.toLocaleString()})`);
+              .text(`(${formatNumber(item.value)})`);
           } else {
             // For desktop, add value below the label
             itemGroup.append('text')
@@ -673,6 +732,7 @@ export function createPieChart(
 
   // Destroy function to clean up resources
   const destroy = () => {
+    keyboard.cleanup();
     if (container) {
       d3.select(container).select('svg').remove();
     }
@@ -1,17 +1,60 @@
 import * as d3 from 'd3';
 import { createGridTooltipContent } from '../hooks/useTooltip';
+import { useChartKeyboard, type UseChartKeyboardResult } from '../hooks/useChartKeyboard';
 import { getColorPalette } from '../utils/colorPalette';
+import { getTimeInterval, formatPeriodKey, type TimeGranularity } from '../utils/dataProcessing';
+import type { ForecastPoint } from '../utils/forecast';
+import { isRtl } from '../stores/translationStore';
+import { formatDate, formatMonth, formatPercent, formatCompactNumber, getTimeFormat } from './formatting';
+import type { Language } from '../types/translations';
 
 // Define interfaces for data structures
+// One entry per period of the chosen granularity (a month by default)
 export interface MonthlyData {
-    date: Date;          // First day of the month
-    month: string;       // Formatted month (e.g., "2024-03")
+    date: Date;          // First day of the period
+    month: string;       // Period key (e.g., "2024-03", "2024-W12", "2024-Q1")
     monthFormatted: string; // Display format (e.g., "Mar 2024")
-    count: number;       // Number of items added in this month
-    total: number;       // Cumulative total as of this month
+    count: number;       // Number of items added in this period
+    total: number;       // Cumulative total as of this period
     percentage: number;  // Percentage of total
 }
 
+/**
+ * Items published in a year or decade, split by country or type
+ */
+export interface PublicationPeriodData {
+    year: number;                    // First year of the period
+    counts: Record<string, number>;  // Items per series key
+    total: number;                   // Items published in the period
+}
+
+/**
+ * A stacked layer of the publication timeline
+ */
+export interface PublicationSeries {
+    key: string;
+    label: string;
+    color: string;
+}
+
+/**
+ * An event marked on the growth timeline
+ */
+export interface TimelineMarker {
+    date: Date;     // Day of the event
+    label: string;  // Label in the current language
+    url?: string;   // Opened in a new tab when the marker is clicked
+}
+
+export interface PublicationRenderOptions {
+    /** Length of the periods in years (1 or 10) */
+    binSize: number;
+    /** First years of the first and last periods shown in the main chart, null for all */
+    selection?: [number, number] | null;
+    /** Called when the overview brush changes the shown periods */
+    onSelectionChange?: (selection: [number, number] | null) => void;
+}
+
 export interface TimelineOptions {
     container: HTMLDivElement;
     width: number;
@@ -19,16 +62,53 @@ export interface TimelineOptions {
     isMobile?: boolean;
     isExtraSmall?: boolean;
     formatNumber?: (num: number) => string;
-    currentLang?: 'en' | 'fr';
+    currentLang?: Language;
+    /** Size of the periods in the data (default: month) */
+    granularity?: TimeGranularity;
     translations?: {
         monthlyAdditions?: string;
         totalItems?: string;
         newItems?: string;
         percentage?: string;
         month?: string;
+        /** Tooltip title of a week, {0} being its first day */
+        weekOf?: string;
+        /** Label of a decade, {0} being its first year */
+        decade?: string;
+        /** Y-axis label of the publication timeline */
+        publishedItems?: string;
+        /** Legend label of the forecast */
+        forecast?: string;
+        /** Tooltip labels of a projected period */
+        projectedTotal?: string;
+        projectedAdditions?: string;
+        confidenceRange?: string;
+        /** Tooltip label of the date of an event marker */
+        eventDate?: string;
+        /** Name of the chart read by screen readers */
+        chartLabel?: string;
     };
 }
 
+/**
+ * A point of the growth timeline reached with the keyboard
+ */
+interface TimelinePoint {
+    element: SVGCircleElement;
+    line: 'monthly' | 'total';
+    date: Date;
+    value: string;  // Value read by screen readers, e.g. "New Items: 12"
+}
+
+/**
+ * A segment of the publication bars reached with the keyboard
+ */
+interface PublicationSegment {
+    element: SVGRectElement;
+    key: string;    // Series of the segment
+    period: PublicationPeriodData;
+}
+
 export interface TooltipCallbacks {
     showTooltip: (event: MouseEvent, content: string) => void;
     hideTooltip: () => void;
@@ -37,8 +117,6 @@ export interface TooltipCallbacks {
 export class TimelineChart {
     private options: TimelineOptions;
     private tooltipCallbacks: TooltipCallbacks | null = null;
-    private monthFormat = d3.timeFormat('%Y-%m');
-    private displayFormat = d3.timeFormat('%b %Y');
 
     constructor(options: TimelineOptions) {
         this.options = {
@@ -55,10 +133,129 @@ export class TimelineChart {
         this.tooltipCallbacks = callbacks;
     }
 
+    /**
+     * Whether the chart is mirrored for a right-to-left language:
+     * time runs from right to left and the y-axes stand on the right
+     */
+    private get rtl(): boolean {
+        return isRtl(this.options.currentLang || 'en');
+    }
+
+    /**
+     * Swaps the left and right margins in right-to-left languages, so that the y-axis keeps its room
+     */
+    private mirrorMargin(margin: { top: number, right: number, bottom: number, left: number }) {
+        return this.rtl ? { ...margin, left: margin.right, right: margin.left } : margin;
+    }
+
+    /**
+     * Draws a y-axis on the start side of the chart
+     */
+    private appendYAxis(
+        chart: d3.Selection<SVGGElement, unknown, null, undefined>,
+        yScale: d3.ScaleLinear<number, number>,
+        chartWidth: number,
+        className: string,
+        ticks: number
+    ) {
+        const axis = this.rtl ? d3.axisRight(yScale) : d3.axisLeft(yScale);
+        return chart.append('g')
+            .attr('class', className)
+            .attr('transform', this.rtl ? `translate(${chartWidth}, 0)` : null)
+            .call(axis.ticks(ticks).tickFormat(d => formatCompactNumber(d as number, this.options.currentLang)));
+    }
+
+    /**
+     * Adds the rotated title of a y-axis, outside the chart on the side of the axis
+     */
+    private appendYAxisTitle(
+        chart: d3.Selection<SVGGElement, unknown, null, undefined>,
+        chartWidth: number,
+        chartHeight: number,
+        text: string
+    ) {
+        chart.append('text')
+            .attr('class', 'text-xs text-secondary')
+            .attr('transform', 'rotate(-90)')
+            .attr('y', this.rtl ? chartWidth + 50 : -50)
+            .attr('x', -chartHeight / 2)
+            .attr('text-anchor', 'middle')
+            .text(text);
+    }
+
+    /**
+     * Slants the labels of an x-axis so that they hang towards the start of the axis
+     */
+    private slantXAxisLabels(labels: d3.Selection<d3.BaseType, unknown, SVGGElement, unknown>, angle: number, className: string) {
+        labels
+            .attr('class', className)
+            .attr('text-anchor', this.rtl ? 'start' : 'end')
+            .attr('dx', this.rtl ? '.8em' : '-.8em')
+            .attr('dy', '.15em')
+            .attr('transform', `rotate(${this.rtl ? -angle : angle})`);
+    }
+
+    /**
+     * Creates the shared x-axis, with ticks and labels suited to the granularity
+     */
+    private createXAxis(xScale: d3.ScaleTime<number, number>, chartWidth: number, periodCount: number, isMobile: boolean | undefined) {
+        const { currentLang = 'en', granularity = 'month' } = this.options;
+        const monthTickFormat = getTimeFormat("%b '%y", currentLang);
+        const numTicks = Math.max(2, Math.floor(chartWidth / (isMobile ? 60 : 80))); // Dynamic ticks
+        const xAxis = d3.axisBottom(xScale);
+
+        // Quarters and years only get ticks at period starts, never in between
+        if (granularity === 'quarter' || granularity === 'year') {
+            const every = getTimeInterval(granularity).every(Math.max(1, Math.ceil(periodCount / numTicks)));
+            if (every) xAxis.ticks(every);
+        } else {
+            xAxis.ticks(numTicks);
+        }
+
+        return xAxis.tickFormat(d => { // Locale-aware formatting
+            const date = d as Date;
+            switch (granularity) {
+                case 'day':
+                case 'week':
+                    return formatDate(date, { day: 'numeric', month: 'short' }, currentLang);
+                case 'quarter':
+                    return formatPeriodKey(date, 'quarter');
+                case 'year':
+                    return date.getFullYear().toString();
+                default:
+                    return monthTickFormat(date);
+            }
+        });
+    }
+
+    /**
+     * Formats the period starting at a date for tooltip titles
+     */
+    private formatPeriodTitle(date: Date): string {
+        const { currentLang = 'en', granularity = 'month', translations } = this.options;
+        const fullDate: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'long', year: 'numeric' };
+        switch (granularity) {
+            case 'day':
+                return formatDate(date, fullDate, currentLang);
+            case 'week':
+                return (translations?.weekOf || 'Week of {0}')
+                    .replace('{0}', formatDate(date, fullDate, currentLang));
+            case 'quarter':
+                return formatPeriodKey(date, 'quarter');
+            case 'year':
+                return date.getFullYear().toString();
+            default:
+                return formatMonth(date, currentLang);
+        }
+    }
+
     /**
      * Renders the timeline visualization
+     * @param timelineData Observed periods
+     * @param forecast Projected periods drawn after the observed ones, with their confidence band
+     * @param markers Events drawn as vertical markers across both charts
      */
-    render(timelineData: MonthlyData[]) {
+    render(timelineData: MonthlyData[], forecast: ForecastPoint[] = [], markers: TimelineMarker[] = []) {
         try {
             const { container, width, height, isMobile, isExtraSmall, currentLang = 'en' } = this.options;
             
@@ -103,12 +300,12 @@ export class TimelineChart {
             d3.select(container).selectAll('*').remove();
             
             // Set margins based on screen size
-            const margin = {
+            const margin = this.mirrorMargin({
                 top: isMobile ? 20 : 40,
                 right: isMobile ? 15 : 30,
                 bottom: isMobile ? 70 : 80,
                 left: isMobile ? 40 : 60
-            };
+            });
             
             // Create SVG
             const svg = d3.select(container)
@@ -125,10 +322,13 @@ export class TimelineChart {
             // Adjust chartHeight for two charts
             const chartHeight = (fullChartHeight - (isMobile ? 30 : 50)) / 2;
             
-            // Create x scale for both charts (shared)
+            // Create x scale for both charts (shared), extended to the projected periods
             const xScale = d3.scaleTime()
-                .domain(d3.extent(timelineData, d => d.date) as [Date, Date])
-                .range([0, chartWidth]);
+                .domain([
+                    timelineData[0].date,
+                    forecast.length > 0 ? forecast[forecast.length - 1].date : timelineData[timelineData.length - 1].date
+                ])
+                .range(this.rtl ? [chartWidth, 0] : [0, chartWidth]);
             
             // Add divider line between charts
             svg.append('line')
@@ -141,7 +341,7 @@ export class TimelineChart {
                 .attr('stroke-dasharray', '3,3');
             
             // Add legend only if not extra small
-            this.addLegend(svg, margin, isExtraSmall, validWidth);
+            this.addLegend(svg, margin, isExtraSmall, validWidth, forecast.length > 0);
             
             // Create circle marker definition for line points
             svg.append('defs').append('marker')
@@ -159,7 +359,12 @@ export class TimelineChart {
             this.renderMonthlyChart(svg, timelineData, margin, chartWidth, chartHeight, xScale, isMobile);
             
             // Render total items chart
-            this.renderTotalChart(svg, timelineData, margin, chartWidth, chartHeight, xScale, isMobile);
+            this.renderTotalChart(svg, timelineData, forecast, margin, chartWidth, chartHeight, xScale, isMobile);
+            
+            // Render event markers over both charts
+            this.renderMarkers(svg, markers, margin, 2 * chartHeight + (isMobile ? 30 : 50), xScale, isMobile);
+
+            this.addPointNavigation(svg);
             
             console.log('[TimelineChart] Successfully rendered timeline chart');
         } catch (error) {
@@ -179,6 +384,58 @@ export class TimelineChart {
         }
     }
 
+    /**
+     * Draws events as dashed vertical lines spanning both charts, with a flag showing their label on hover
+     */
+    private renderMarkers(
+        svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+        markers: TimelineMarker[],
+        margin: { top: number, right: number, bottom: number, left: number },
+        height: number,
+        xScale: d3.ScaleTime<number, number>,
+        isMobile: boolean | undefined
+    ) {
+        const { currentLang = 'en', translations } = this.options;
+        const [start, end] = xScale.domain();
+        const shown = markers.filter(marker => marker.date >= start && marker.date <= end);
+        if (shown.length === 0) return;
+
+        const tooltipCallbacks = this.tooltipCallbacks;
+        const getContent = (marker: TimelineMarker) => createGridTooltipContent(
+            marker.label,
+            [{ label: translations?.eventDate || 'Date', value: formatDate(marker.date, { day: 'numeric', month: 'long', year: 'numeric' }, currentLang) }]
+        );
+
+        const markerGroups = svg.append('g')
+            .attr('class', 'timeline-markers')
+            .attr('transform', `translate(${margin.left}, ${margin.top})`)
+            .selectAll('g')
+            .data(shown)
+            .enter()
+            .append('g')
+            .attr('class', 'timeline-marker')
+            .attr('transform', d => `translate(${xScale(d.date)}, 0)`);
+
+        markerGroups.append('line')
+            .attr('y1', 0)
+            .attr('y2', height)
+            .attr('stroke', 'var(--color-text-secondary)')
+            .attr('stroke-width', 1)
+            .attr('stroke-dasharray', '2 3');
+
+        markerGroups.append('path')
+            // Flags point towards later dates
+            .attr('d', isMobile ? 'M0,0 L8,3 L0,6 Z' : 'M0,0 L10,4 L0,8 Z')
+            .attr('transform', this.rtl ? 'scale(-1, 1)' : null)
+            .attr('fill', 'var(--color-text-secondary)')
+            .attr('class', d => d.url ? 'cursor-pointer' : '')
+            .on('mouseenter mousemove', (event: MouseEvent, d) => tooltipCallbacks?.showTooltip(event, getContent(d)))
+            .on('mouseleave', () => tooltipCallbacks?.hideTooltip())
+            .on('click', (_event: MouseEvent, d) => {
+                if (d.url) window.open(d.url, '_blank', 'noopener');
+            });
+    }
+
     /**
      * Adds legend to the chart
      */
@@ -186,14 +443,19 @@ export class TimelineChart {
         svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
         margin: { top: number, right: number, bottom: number, left: number },
         isExtraSmall: boolean | undefined,
-        width: number
+        width: number,
+        showForecast: boolean
     ) {
         if (isExtraSmall) return;
         
         const { translations } = this.options;
         
+        // Legend entries are drawn leftwards from the end corner; in RTL the group is
+        // mirrored to the left corner and its labels flipped back
         const legendGroup = svg.append('g')
-            .attr('transform', `translate(${width - margin.right}, ${margin.top - 10})`);
+            .attr('transform', this.rtl
+                ? `translate(${margin.left}, ${margin.top - 10}) scale(-1, 1)`
+                : `translate(${width - margin.right}, ${margin.top - 10})`);
             
         // Monthly additions legend item
         legendGroup.append('line')
@@ -226,8 +488,53 @@ export class TimelineChart {
             .attr('y', 24)
             .attr('class', 'text-xs text-secondary')
             .text(translations?.totalItems || 'Total Items');
+
+        if (!showForecast) {
+            this.unmirrorLabels(legendGroup);
+            return;
+        }
+
+        // Forecast legend item: the band behind the projected line
+        legendGroup.append('rect')
+            .attr('x', -100)
+            .attr('y', 34)
+            .attr('width', 20)
+            .attr('height', 12)
+            .attr('fill', 'var(--color-secondary)')
+            .attr('opacity', 0.15);
+
+        legendGroup.append('line')
+            .attr('x1', -100)
+            .attr('y1', 40)
+            .attr('x2', -80)
+            .attr('y2', 40)
+            .attr('stroke', 'var(--color-secondary)')
+            .attr('stroke-width', 2)
+            .attr('stroke-dasharray', '6 4');
+
+        legendGroup.append('text')
+            .attr('x', -75)
+            .attr('y', 44)
+            .attr('class', 'text-xs text-secondary')
+            .text(translations?.forecast || 'Forecast');
+
+        this.unmirrorLabels(legendGroup);
     }
     
+    /**
+     * Flips back the labels of a group mirrored with scale(-1, 1), keeping them at their mirrored place
+     */
+    private unmirrorLabels(group: d3.Selection<SVGGElement, unknown, null, undefined>) {
+        if (!this.rtl) return;
+        group.selectAll<SVGTextElement, unknown>('text').each(function() {
+            const text = d3.select(this);
+            text
+                .attr('x', -(+text.attr('x') || 0))
+                .attr('transform', 'scale(-1, 1)')
+                .attr('text-anchor', 'end');
+        });
+    }
+
     /**
      * Renders the monthly additions chart
      */
@@ -240,7 +547,7 @@ export class TimelineChart {
         xScale: d3.ScaleTime<number, number>,
         isMobile: boolean | undefined
     ) {
-        const { translations, currentLang = 'en' } = this.options;
+        const { translations } = this.options;
         
         const chart1 = svg.append('g')
             .attr('transform', `translate(${margin.left}, ${margin.top})`);
@@ -266,46 +573,26 @@ export class TimelineChart {
             .attr('stroke-dasharray', '1,3');
             
         // Create x-axis for monthly chart
-        const numTicks = Math.max(2, Math.floor(chartWidth / (isMobile ? 60 : 80))); // Dynamic ticks
-        const xAxis = d3.axisBottom(xScale)
-            .ticks(numTicks)
-            .tickFormat(d => { // Locale-aware formatting
-                const date = d as Date;
-                return currentLang === 'fr' ? 
-                    date.toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' }) : 
-                    d3.timeFormat("%b '%y")(date);
-            });
+        const xAxis = this.createXAxis(xScale, chartWidth, data.length, isMobile);
         
-        chart1.append('g')
-            .attr('class', 'x-axis axis-modern')
-            .attr('transform', `translate(0, ${chartHeight})`)
-            .call(xAxis)
-            .selectAll('text')
-            .attr('class', 'text-xs text-secondary')
-            .attr('text-anchor', 'end')
-            .attr('dx', '-.8em')
-            .attr('dy', '.15em')
-            .attr('transform', `rotate(${isMobile ? -45 : -30})`);
+        this.slantXAxisLabels(
+            chart1.append('g')
+                .attr('class', 'x-axis axis-modern')
+                .attr('transform', `translate(0, ${chartHeight})`)
+                .call(xAxis)
+                .selectAll('text'),
+            isMobile ? -45 : -30,
+            'text-xs text-secondary'
+        );
             
         // Create y-axis for monthly chart
-        const yAxis = d3.axisLeft(yScaleMonthly)
-            .ticks(isMobile ? 3 : 5);
-        
-        chart1.append('g')
-            .attr('class', 'y-axis axis-modern')
-            .call(yAxis)
+        this.appendYAxis(chart1, yScaleMonthly, chartWidth, 'y-axis axis-modern', isMobile ? 3 : 5)
             .selectAll('text')
             .attr('class', 'text-xs text-secondary');
             
         // Add y-axis label for monthly chart (only on non-mobile)
         if (!isMobile) {
-            chart1.append('text')
-                .attr('class', 'text-xs text-secondary')
-                .attr('transform', 'rotate(-90)')
-                .attr('y', -50)
-                .attr('x', -chartHeight / 2)
-                .attr('text-anchor', 'middle')
-                .text(translations?.monthlyAdditions || 'Monthly Additions');
+            this.appendYAxisTitle(chart1, chartWidth, chartHeight, translations?.monthlyAdditions || 'Monthly Additions');
         }
             
         // Create line generator for monthly data
@@ -337,10 +624,11 @@ export class TimelineChart {
         yScale: d3.ScaleLinear<number, number>,
         isMobile: boolean | undefined
     ) {
-        const { formatNumber, translations, currentLang = 'en' } = this.options;
+        const { formatNumber, translations, currentLang } = this.options;
         
         if (!this.tooltipCallbacks) return;
         const { showTooltip, hideTooltip } = this.tooltipCallbacks;
+        const formatPeriodTitle = (date: Date) => this.formatPeriodTitle(date);
         
         // Add dots for each data point in monthly chart - fewer on mobile
         chart.selectAll('.dot-monthly')
@@ -354,34 +642,28 @@ export class TimelineChart {
             .attr('fill', 'var(--color-accent-1)')
             .attr('stroke', 'var(--color-bg-card)')
             .attr('stroke-width', 2)
-            .on('mouseenter', function(event: any, d: MonthlyData) {
+            .on('mouseenter', function(event: MouseEvent, d: MonthlyData) {
                 d3.select(this)
                     .transition()
                     .duration(200)
                     .attr('r', isMobile ? 5 : 6);
                 
-                const monthName = d.date.toLocaleString(currentLang === 'fr' ? 'fr-FR' : 'en-US', { month: 'long' });
-                const year = d.date.getFullYear();
-                
                 const content = createGridTooltipContent(
-                    `${monthName} ${year}`,
+                    formatPeriodTitle(d.date),
                     [
                         { label: translations?.newItems || 'New Items', value: formatNumber ? formatNumber(d.count) : d.count.toString() },
-                        { label: translations?.percentage || 'Percentage', value: `${d.percentage.toFixed(2)}%` }
+                        { label: translations?.percentage || 'Percentage', value: formatPercent(d.percentage, 2, currentLang) }
                     ]
                 );
                 
                 showTooltip(event, content);
             })
-            .on('mousemove', function(event: any, d: MonthlyData) {
-                const monthName = d.date.toLocaleString(currentLang === 'fr' ? 'fr-FR' : 'en-US', { month: 'long' });
-                const year = d.date.getFullYear();
-                
+            .on('mousemove', function(event: MouseEvent, d: MonthlyData) {
                 const content = createGridTooltipContent(
-                    `${monthName} ${year}`,
+                    formatPeriodTitle(d.date),
                     [
                         { label: translations?.newItems || 'New Items', value: formatNumber ? formatNumber(d.count) : d.count.toString() },
-                        { label: translations?.percentage || 'Percentage', value: `${d.percentage.toFixed(2)}%` }
+                        { label: translations?.percentage || 'Percentage', value: formatPercent(d.percentage, 2, currentLang) }
                     ]
                 );
                 
@@ -402,20 +684,21 @@ export class TimelineChart {
     private renderTotalChart(
         svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
         data: MonthlyData[],
+        forecast: ForecastPoint[],
         margin: { top: number, right: number, bottom: number, left: number },
         chartWidth: number,
         chartHeight: number,
         xScale: d3.ScaleTime<number, number>,
         isMobile: boolean | undefined
     ) {
-        const { translations, currentLang = 'en' } = this.options;
+        const { translations } = this.options;
         
         const chart2 = svg.append('g')
             .attr('transform', `translate(${margin.left}, ${margin.top + chartHeight + (isMobile ? 30 : 50)})`);
             
         // Create y scale for total chart
         const yScaleTotal = d3.scaleLinear()
-            .domain([0, (d3.max(data, d => d.total) || 0) * 1.1])
+            .domain([0, Math.max(d3.max(data, d => d.total) || 0, d3.max(forecast, d => d.upper) || 0) * 1.1])
             .range([chartHeight, 0]);
             
         // Create grid lines for total chart
@@ -433,46 +716,26 @@ export class TimelineChart {
             .attr('stroke-width', 0.5);
             
         // Create x-axis for total chart
-        const numTicksTotal = Math.max(2, Math.floor(chartWidth / (isMobile ? 60 : 80))); // Dynamic ticks
-        const xAxisTotal = d3.axisBottom(xScale)
-            .ticks(numTicksTotal)
-            .tickFormat(d => { // Locale-aware formatting
-                const date = d as Date;
-                return currentLang === 'fr' ? 
-                    date.toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' }) : 
-                    d3.timeFormat("%b '%y")(date);
-            });
+        const xAxisTotal = this.createXAxis(xScale, chartWidth, data.length, isMobile);
         
-        chart2.append('g')
-            .attr('class', 'x-axis')
-            .attr('transform', `translate(0, ${chartHeight})`)
-            .call(xAxisTotal)
-            .selectAll('text')
-            .attr('class', 'text-xs text-primary')
-            .attr('text-anchor', 'end')
-            .attr('dx', '-.8em')
-            .attr('dy', '.15em')
-            .attr('transform', `rotate(${isMobile ? -45 : -30})`);
+        this.slantXAxisLabels(
+            chart2.append('g')
+                .attr('class', 'x-axis')
+                .attr('transform', `translate(0, ${chartHeight})`)
+                .call(xAxisTotal)
+                .selectAll('text'),
+            isMobile ? -45 : -30,
+            'text-xs text-primary'
+        );
             
         // Create y-axis for total chart
-        const yAxis = d3.axisLeft(yScaleTotal)
-            .ticks(isMobile ? 3 : 5);
-        
-        chart2.append('g')
-            .attr('class', 'y-axis')
-            .call(yAxis)
+        this.appendYAxis(chart2, yScaleTotal, chartWidth, 'y-axis', isMobile ? 3 : 5)
             .selectAll('text')
             .attr('class', 'text-xs text-primary');
             
         // Add y-axis label for total chart (only on non-mobile)
         if (!isMobile) {
-            chart2.append('text')
-                .attr('class', 'text-xs text-secondary')
-                .attr('transform', 'rotate(-90)')
-                .attr('y', -50)
-                .attr('x', -chartHeight / 2)
-                .attr('text-anchor', 'middle')
-                .text(translations?.totalItems || 'Total Items');
+            this.appendYAxisTitle(chart2, chartWidth, chartHeight, translations?.totalItems || 'Total Items');
                 
             // Add x-axis label (only on non-mobile and on the bottom chart)
             chart2.append('text')
@@ -498,9 +761,94 @@ export class TimelineChart {
             .attr('stroke-dasharray', '4 2')
             .attr('d', lineTotal);
             
+        if (forecast.length > 0) {
+            this.renderForecast(chart2, data[data.length - 1], forecast, xScale, yScaleTotal, isMobile);
+        }
+            
         // Add interactive dots
         this.addTotalDots(chart2, data, xScale, yScaleTotal, isMobile);
     }
+
+    /**
+     * Draws the projected totals as a dashed line over their confidence band,
+     * starting from the last observed period
+     */
+    private renderForecast(
+        chart: d3.Selection<SVGGElement, unknown, null, undefined>,
+        last: MonthlyData,
+        forecast: ForecastPoint[],
+        xScale: d3.ScaleTime<number, number>,
+        yScale: d3.ScaleLinear<number, number>,
+        isMobile: boolean | undefined
+    ) {
+        const { formatNumber, translations } = this.options;
+        const format = (num: number) => formatNumber ? formatNumber(Math.round(num)) : Math.round(num).toString();
+        const points: Pick<ForecastPoint, 'date' | 'total' | 'lower' | 'upper'>[] = [
+            { date: last.date, total: last.total, lower: last.total, upper: last.total },
+            ...forecast
+        ];
+
+        const forecastGroup = chart.append('g').attr('class', 'timeline-forecast');
+
+        forecastGroup.append('path')
+            .datum(points)
+            .attr('fill', 'var(--color-secondary)')
+            .attr('opacity', 0.15)
+            .attr('d', d3.area<typeof points[number]>()
+                .x(d => xScale(d.date))
+                .y0(d => yScale(d.lower))
+                .y1(d => yScale(d.upper)));
+
+        forecastGroup.append('path')
+            .datum(points)
+            .attr('fill', 'none')
+            .attr('stroke', 'var(--color-secondary)')
+            .attr('stroke-width', isMobile ? 1.5 : 2)
+            .attr('stroke-dasharray', '6 4')
+            .attr('d', d3.line<typeof points[number]>()
+                .x(d => xScale(d.date))
+                .y(d => yScale(d.total)));
+
+        if (!this.tooltipCallbacks) return;
+        const { showTooltip, hideTooltip } = this.tooltipCallbacks;
+        const getContent = (d: ForecastPoint) => createGridTooltipContent(
+            this.formatPeriodTitle(d.date),
+            [
+                { label: translations?.projectedTotal || 'Projected total', value: format(d.total) },
+                { label: translations?.confidenceRange || '95% range', value: `${format(d.lower)} – ${format(d.upper)}` },
+                { label: translations?.projectedAdditions || 'Projected new items', value: format(d.count) }
+            ]
+        );
+
+        forecastGroup.selectAll('.dot-forecast')
+            .data(forecast)
+            .enter()
+            .append('circle')
+            .attr('class', 'dot-forecast cursor-pointer')
+            .attr('cx', d => xScale(d.date))
+            .attr('cy', d => yScale(d.total))
+            .attr('r', isMobile ? 3 : 4)
+            .attr('fill', 'var(--color-bg-card)')
+            .attr('stroke', 'var(--color-secondary)')
+            .attr('stroke-width', 1.5)
+            .on('mouseenter', function(event: MouseEvent, d: ForecastPoint) {
+                d3.select(this)
+                    .transition()
+                    .duration(200)
+                    .attr('r', isMobile ? 5 : 6);
+                showTooltip(event, getContent(d));
+            })
+            .on('mousemove', function(event: MouseEvent, d: ForecastPoint) {
+                showTooltip(event, getContent(d));
+            })
+            .on('mouseleave', function() {
+                d3.select(this)
+                    .transition()
+                    .duration(200)
+                    .attr('r', isMobile ? 3 : 4);
+                hideTooltip();
+            });
+    }
     
     /**
      * Adds interactive dots to the total chart
@@ -512,10 +860,11 @@ export class TimelineChart {
         yScale: d3.ScaleLinear<number, number>,
         isMobile: boolean | undefined
     ) {
-        const { formatNumber, translations, currentLang = 'en' } = this.options;
+        const { formatNumber, translations } = this.options;
         
         if (!this.tooltipCallbacks) return;
         const { showTooltip, hideTooltip } = this.tooltipCallbacks;
+        const formatPeriodTitle = (date: Date) => this.formatPeriodTitle(date);
         
         // Add dots for each data point in total chart - fewer on mobile
         chart.selectAll('.dot-total')
@@ -527,19 +876,16 @@ export class TimelineChart {
             .attr('cy', d => yScale(d.total))
             .attr('r', isMobile ? 3 : 4)
             .attr('fill', 'var(--color-secondary)')
-            .attr('stroke', 'white')
+            .attr('stroke', 'var(--color-bg-card)')
             .attr('stroke-width', 1)
-            .on('mouseenter', function(event: any, d: MonthlyData) {
+            .on('mouseenter', function(event: MouseEvent, d: MonthlyData) {
                 d3.select(this)
                     .transition()
                     .duration(200)
                     .attr('r', isMobile ? 5 : 6);
                 
-                const monthName = d.date.toLocaleString(currentLang === 'fr' ? 'fr-FR' : 'en-US', { month: 'long' });
-                const year = d.date.getFullYear();
-                
                 const content = createGridTooltipContent(
-                    `${monthName} ${year}`,
+                    formatPeriodTitle(d.date),
                     [
                         { label: translations?.totalItems || 'Total Items', value: formatNumber ? formatNumber(d.total) : d.total.toString() }
                     ]
@@ -547,12 +893,9 @@ export class TimelineChart {
                 
                 showTooltip(event, content);
             })
-            .on('mousemove', function(event: any, d: MonthlyData) {
-                const monthName = d.date.toLocaleString(currentLang === 'fr' ? 'fr-FR' : 'en-US', { month: 'long' });
-                const year = d.date.getFullYear();
-                
+            .on('mousemove', function(event: MouseEvent, d: MonthlyData) {
                 const content = createGridTooltipContent(
-                    `${monthName} ${year}`,
+                    formatPeriodTitle(d.date),
                     [
                         { label: translations?.totalItems || 'Total Items', value: formatNumber ? formatNumber(d.total) : d.total.toString() }
                     ]
@@ -568,4 +911,298 @@ export class TimelineChart {
                 hideTooltip();
             });
     }
-} 
\ No newline at end of file
+
+    /**
+     * Lets the keyboard move between the dots: left and right along a line, up and down between
+     * the monthly and the total line. A focused dot shows its tooltip as on hover.
+     */
+    private addPointNavigation(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>) {
+        const { container, formatNumber, translations } = this.options;
+        const format = (num: number) => formatNumber ? formatNumber(Math.round(num)) : Math.round(num).toString();
+        const points: TimelinePoint[] = [];
+
+        svg.selectAll<SVGCircleElement, MonthlyData>('.dot-monthly').each(function(d) {
+            points.push({ element: this, line: 'monthly', date: d.date, value: `${translations?.newItems || 'New Items'}: ${format(d.count)}` });
+        });
+        svg.selectAll<SVGCircleElement, MonthlyData>('.dot-total').each(function(d) {
+            points.push({ element: this, line: 'total', date: d.date, value: `${translations?.totalItems || 'Total Items'}: ${format(d.total)}` });
+        });
+        // Projected periods continue the total line
+        svg.selectAll<SVGCircleElement, ForecastPoint>('.dot-forecast').each(function(d) {
+            points.push({ element: this, line: 'total', date: d.date, value: `${translations?.projectedTotal || 'Projected total'}: ${format(d.total)}` });
+        });
+        if (points.length === 0) return;
+
+        useChartKeyboard({
+            container,
+            root: svg.node() ?? undefined,
+            label: translations?.chartLabel || '',
+            marks: points,
+            getElement: point => point.element,
+            getKey: point => `${point.line}/${point.date.getTime()}`,
+            getLabel: point => this.formatPeriodTitle(point.date),
+            getDescription: point => `${this.formatPeriodTitle(point.date)}, ${point.value}`,
+            getGroup: point => point.line,
+            getAlignment: point => point.date.getTime(),
+            // The hover handlers of the dots grow them and show their tooltip
+            onFocus: (point, event) => {
+                if (event) point.element.dispatchEvent(new MouseEvent('mouseenter', { clientX: event.clientX, clientY: event.clientY }));
+            },
+            onBlur: point => point.element.dispatchEvent(new MouseEvent('mouseleave'))
+        });
+    }
+
+    /**
+     * Renders items per publication year or decade as stacked bars, with an
+     * overview below whose brush selects the periods shown in the main chart
+     */
+    renderPublication(data: PublicationPeriodData[], series: PublicationSeries[], renderOptions: PublicationRenderOptions) {
+        const { container, width, height, isMobile, translations, formatNumber } = this.options;
+        const { binSize, selection = null, onSelectionChange } = renderOptions;
+
+        try {
+            d3.select(container).selectAll('*').remove();
+            if (data.length === 0) {
+                d3.select(container).append('div')
+                    .attr('class', 'absolute inset-center text-secondary')
+                    .text('No timeline data available with the current filters');
+                return;
+            }
+
+            const validWidth = width > 0 ? width : 300;
+            const validHeight = height > 0 ? height : 500;
+            const margin = this.mirrorMargin({
+                top: isMobile ? 20 : 30,
+                right: isMobile ? 15 : 30,
+                bottom: 30,
+                left: isMobile ? 40 : 60
+            });
+            const overviewHeight = isMobile ? 40 : 60;
+            // Room for the rotated labels of the main x-axis
+            const gap = isMobile ? 50 : 60;
+            const chartWidth = validWidth - margin.left - margin.right;
+            const chartHeight = validHeight - margin.top - margin.bottom - overviewHeight - gap;
+
+            const formatPeriod = (year: number) => binSize === 10
+                ? (translations?.decade || '{0}s').replace('{0}', year.toString())
+                : year.toString();
+            const format = (num: number) => formatNumber ? formatNumber(num) : num.toString();
+            // At most one label every 60px
+            const tickValues = (years: number[]) => {
+                const step = Math.max(1, Math.ceil(years.length / Math.max(2, Math.floor(chartWidth / (isMobile ? 45 : 60)))));
+                return years.filter((_, i) => i % step === 0);
+            };
+
+            const svg = d3.select(container)
+                .append('svg')
+                .attr('width', validWidth)
+                .attr('height', validHeight)
+                .attr('viewBox', `0 0 ${validWidth} ${validHeight}`)
+                .attr('class', 'timeline-chart timeline-modern');
+
+            const colors = new Map(series.map(s => [s.key, s.color]));
+            const labels = new Map(series.map(s => [s.key, s.label]));
+            const stack = d3.stack<PublicationPeriodData>()
+                .keys(series.map(s => s.key))
+                .value((d, key) => d.counts[key] || 0);
+
+            // Main chart
+            const main = svg.append('g')
+                .attr('transform', `translate(${margin.left}, ${margin.top})`);
+            const xRange: [number, number] = this.rtl ? [chartWidth, 0] : [0, chartWidth];
+            const mainX = d3.scaleBand<number>().range(xRange).padding(0.1);
+            const mainY = d3.scaleLinear().range([chartHeight, 0]);
+            const xAxisGroup = main.append('g')
+                .attr('class', 'x-axis axis-modern')
+                .attr('transform', `translate(0, ${chartHeight})`);
+            const yAxisGroup = main.append('g')
+                .attr('class', 'y-axis axis-modern')
+                .attr('transform', this.rtl ? `translate(${chartWidth}, 0)` : null);
+            const barsGroup = main.append('g');
+            let keyboard: UseChartKeyboardResult<PublicationSegment> | null = null;
+
+            if (!isMobile) {
+                this.appendYAxisTitle(main, chartWidth, chartHeight, translations?.publishedItems || 'Items published');
+            }
+
+            const showTooltip = (event: MouseEvent, d: PublicationPeriodData) => {
+                if (!this.tooltipCallbacks) return;
+                const rows = series
+                    .filter(s => (d.counts[s.key] || 0) > 0)
+                    .sort((a, b) => (d.counts[b.key] || 0) - (d.counts[a.key] || 0))
+                    .map(s => ({ label: labels.get(s.key) || s.key, value: format(d.counts[s.key] || 0) }));
+                rows.push({ label: translations?.totalItems || 'Total Items', value: format(d.total) });
+                this.tooltipCallbacks.showTooltip(event, createGridTooltipContent(formatPeriod(d.year), rows));
+            };
+
+            const drawMain = (range: [number, number] | null) => {
+                const shown = range ? data.filter(d => d.year >= range[0] && d.year <= range[1]) : data;
+                mainX.domain(shown.map(d => d.year));
+                mainY.domain([0, (d3.max(shown, d => d.total) || 0) * 1.1]);
+
+                this.slantXAxisLabels(
+                    xAxisGroup
+                        .call(d3.axisBottom(mainX)
+                            .tickValues(tickValues(shown.map(d => d.year)))
+                            .tickFormat(year => formatPeriod(year))
+                            .tickSizeOuter(0))
+                        .selectAll('text'),
+                    -45,
+                    'text-xs text-secondary'
+                );
+                yAxisGroup
+                    .call((this.rtl ? d3.axisRight(mainY) : d3.axisLeft(mainY)).ticks(isMobile ? 3 : 5)
+                        .tickFormat(d => formatCompactNumber(d as number, this.options.currentLang)))
+                    .selectAll('text')
+                    .attr('class', 'text-xs text-secondary');
+
+                barsGroup.selectAll('*').remove();
+                barsGroup.selectAll('g')
+                    .data(stack(shown))
+                    .enter()
+                    .append('g')
+                    .attr('fill', d => colors.get(d.key) || 'var(--color-primary)')
+                    .selectAll('rect')
+                    .data(d => d)
+                    .enter()
+                    .append('rect')
+                    .attr('class', 'cursor-pointer')
+                    .attr('x', d => mainX(d.data.year) || 0)
+                    .attr('y', d => mainY(d[1]))
+                    .attr('height', d => mainY(d[0]) - mainY(d[1]))
+                    .attr('width', mainX.bandwidth())
+                    .on('mouseenter mousemove', (event: MouseEvent, d) => showTooltip(event, d.data))
+                    .on('mouseleave', () => this.tooltipCallbacks?.hideTooltip());
+
+                // Keyboard navigation between the segments: left and right change the period, up and down the series
+                const segments: PublicationSegment[] = barsGroup.selectAll<SVGGElement, d3.Series<PublicationPeriodData, string>>('g')
+                    .nodes()
+                    .flatMap(group => {
+                        const { key } = d3.select<SVGGElement, d3.Series<PublicationPeriodData, string>>(group).datum();
+                        return d3.select(group).selectAll<SVGRectElement, d3.SeriesPoint<PublicationPeriodData>>('rect')
+                            .nodes()
+                            .map(element => ({
+                                element,
+                                key,
+                                period: d3.select<SVGRectElement, d3.SeriesPoint<PublicationPeriodData>>(element).datum().data
+                            }));
+                    })
+                    .filter(d => (d.period.counts[d.key] || 0) > 0)
+                    .sort((a, b) => a.period.year - b.period.year);
+                const segmentLabel = (d: PublicationSegment) => `${formatPeriod(d.period.year)}, ${labels.get(d.key) || d.key}`;
+
+                keyboard?.cleanup();
+                keyboard = useChartKeyboard({
+                    container,
+                    root: svg.node() ?? undefined,
+                    label: translations?.chartLabel || '',
+                    marks: segments,
+                    getElement: d => d.element,
+                    getKey: d => `${d.period.year}/${d.key}`,
+                    getLabel: segmentLabel,
+                    getDescription: d => `${segmentLabel(d)}: ${format(d.period.counts[d.key] || 0)}`,
+                    getGroup: d => d.period.year,
+                    groupDirection: 'vertical',
+                    getAlignment: d => d.key,
+                    onFocus: (d, event) => {
+                        if (event) showTooltip(event, d.period);
+                    },
+                    onBlur: () => this.tooltipCallbacks?.hideTooltip(),
+                    // Escape shows every period again, as a click on the overview does
+                    onEscape: range ? () => {
+                        brushGroup.call(brush.move, null);
+                        drawMain(null);
+                        onSelectionChange?.(null);
+                    } : undefined
+                });
+            };
+
+            // Overview of every period, with the brush
+            const overview = svg.append('g')
+                .attr('class', 'timeline-overview')
+                .attr('transform', `translate(${margin.left}, ${margin.top + chartHeight + gap})`);
+            const overviewX = d3.scaleBand<number>()
+                .domain(data.map(d => d.year))
+                .range(xRange)
+                .padding(0.05);
+            const overviewY = d3.scaleLinear()
+                .domain([0, d3.max(data, d => d.total) || 0])
+                .range([overviewHeight, 0]);
+
+            overview.append('g')
+                .selectAll('rect')
+                .data(data)
+                .enter()
+                .append('rect')
+                .attr('x', d => overviewX(d.year) || 0)
+                .attr('y', d => overviewY(d.total))
+                .attr('width', overviewX.bandwidth())
+                .attr('height', d => overviewHeight - overviewY(d.total))
+                .attr('fill', 'var(--color-primary)')
+                .attr('opacity', 0.5);
+            overview.append('g')
+                .attr('class', 'x-axis axis-modern')
+                .attr('transform', `translate(0, ${overviewHeight})`)
+                .call(d3.axisBottom(overviewX)
+                    .tickValues(tickValues(data.map(d => d.year)))
+                    .tickFormat(year => formatPeriod(year))
+                    .tickSizeOuter(0))
+                .selectAll('text')
+                .attr('class', 'text-xs text-secondary');
+
+            // Periods whose middle lies inside a brush selection
+            const yearsIn = ([x0, x1]: [number, number]) => data
+                .map(d => d.year)
+                .filter(year => {
+                    const middle = (overviewX(year) || 0) + overviewX.bandwidth() / 2;
+                    return middle >= x0 && middle <= x1;
+                });
+            const snap = (range: [number, number]): [number, number] => {
+                // The first period is on the right in right-to-left languages
+                const [x0, x1] = d3.extent([overviewX(range[0]) || 0, overviewX(range[1]) || 0]) as [number, number];
+                return [x0, x1 + overviewX.bandwidth()];
+            };
+
+            const brush = d3.brushX()
+                .extent([[0, 0], [chartWidth, overviewHeight]])
+                .on('brush', event => {
+                    // Ignore programmatic moves
+                    if (!event.sourceEvent || !event.selection) return;
+                    const years = yearsIn(event.selection as [number, number]);
+                    if (years.length > 0) drawMain([years[0], years[years.length - 1]]);
+                })
+                .on('end', event => {
+                    if (!event.sourceEvent) return;
+                    const years = event.selection ? yearsIn(event.selection as [number, number]) : [];
+                    if (years.length === 0) {
+                        // A click without dragging clears the selection
+                        if (event.selection) brushGroup.call(brush.move, null);
+                        drawMain(null);
+                        onSelectionChange?.(null);
+                        return;
+                    }
+                    const range: [number, number] = [years[0], years[years.length - 1]];
+                    // Snap to whole periods
+                    brushGroup.call(brush.move, snap(range));
+                    drawMain(range);
+                    onSelectionChange?.(range);
+                });
+            const brushGroup = overview.append('g')
+                .attr('class', 'timeline-brush')
+                .call(brush);
+
+            // Restore the previous selection if its periods still exist
+            const restored = selection && data.some(d => d.year === selection[0]) && data.some(d => d.year === selection[1])
+                ? selection
+                : null;
+            if (restored) brushGroup.call(brush.move, snap(restored));
+            drawMain(restored);
+        } catch (error) {
+            console.error('[TimelineChart] Error rendering publication timeline:', error);
+            d3.select(container).selectAll('*').remove();
+            d3.select(container).append('div')
+                .attr('class', 'absolute inset-center text-error p-md')
+                .text('Error rendering timeline chart. Please check console for details.');
+        }
+    }
+}
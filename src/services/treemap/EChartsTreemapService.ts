@@ -1,4 +1,10 @@
 import * as echarts from 'echarts';
+import { registerExportSource, createEChartsExportSource } from '../export';
+import { formatNumber } from '../formatting';
+import { getChartTheme } from '../../stores/themeStore';
+import { getReadableTextColor } from '../../utils/colorPalette';
+import { useChartKeyboard, type UseChartKeyboardResult } from '../../hooks/useChartKeyboard';
+import type { Theme } from '../../types/theme';
 
 export interface EChartsTreemapNode {
     name: string;
@@ -18,6 +24,10 @@ export interface EChartsTreemapOptions {
     roam?: boolean | string;
     onNodeClick?: (params: any) => void;
     onTooltip?: (params: any) => string;
+    /** Appelé quand l'utilisateur zoome (clic ou fil d'Ariane), avec les noms des noeuds depuis la racine */
+    onZoomChange?: (path: string[]) => void;
+    /** Nom du graphique lu par les lecteurs d'écran */
+    ariaLabel?: string;
     labelOptions?: {
         show?: boolean;
         fontSize?: number;
@@ -25,6 +35,30 @@ export interface EChartsTreemapOptions {
         color?: string;
     };
     responsive?: boolean;
+    /** Thème dont le graphique prend les couleurs de texte, de bordure et d'infobulle (par défaut : le thème actif) */
+    theme?: Theme;
+}
+
+/**
+ * Noeud de l'arbre construit par ECharts pour la série, réduit à ce que le service en lit
+ */
+interface TreemapViewNode {
+    name: string;
+    depth: number;
+    dataIndex: number;
+    children: TreemapViewNode[];
+    parentNode: TreemapViewNode | null;
+    getValue(): number;
+    getModel(): { option: EChartsTreemapNode };
+}
+
+/**
+ * Accès au modèle de la série, qu'ECharts ne déclare pas dans ses types publics
+ */
+interface TreemapChartModel {
+    getModel(): {
+        getSeriesByIndex(index: number): { getViewRoot(): TreemapViewNode | undefined } | undefined;
+    } | undefined;
 }
 
 export class EChartsTreemapService {
@@ -34,6 +68,8 @@ export class EChartsTreemapService {
     private resizeObserver: ResizeObserver | null = null;
     private isInitialized: boolean = false;
     private isDisposed: boolean = false;
+    private unregisterExport: () => void;
+    private keyboard: UseChartKeyboardResult<TreemapViewNode> | null = null;
 
     constructor(container: HTMLElement, options: EChartsTreemapOptions = {}) {
         this.container = container;
@@ -52,6 +88,9 @@ export class EChartsTreemapService {
             responsive: true,
             ...options
         };
+
+        // Rendre le graphique disponible pour le menu de téléchargement
+        this.unregisterExport = registerExportSource(createEChartsExportSource(() => this.chart));
     }
 
     /**
@@ -107,6 +146,19 @@ export class EChartsTreemapService {
                 this.chart.on('click', this.currentOptions.onNodeClick);
             }
 
+            // Suivre le zoom de l'utilisateur (les actions déclenchées par zoomToNode n'ont pas de targetNode)
+            if (!this.isInitialized && this.currentOptions.onZoomChange) {
+                this.chart.on('treemapZoomToNode', this.handleZoomEvent);
+                this.chart.on('treemapRootToNode', this.handleZoomEvent);
+            }
+
+            // Suivre le zoom pour la navigation au clavier, qui parcourt les noeuds de la vue courante
+            if (!this.isInitialized) {
+                this.chart.on('treemapZoomToNode', this.updateKeyboardMarks);
+                this.chart.on('treemapRootToNode', this.updateKeyboardMarks);
+            }
+            this.setupKeyboard();
+
             // Gérer le redimensionnement responsive seulement lors de la première initialisation
             if (!this.isInitialized && this.currentOptions.responsive) {
                 this.setupResponsive();
@@ -142,6 +194,7 @@ export class EChartsTreemapService {
                     data: data.children || [data]
                 }]
             }, false); // Merge the data instead of replacing
+            this.updateKeyboardMarks();
         } catch (error) {
             console.error('Error updating chart data:', error);
             // En cas d'erreur, essayer de re-rendre complètement
@@ -217,6 +270,9 @@ export class EChartsTreemapService {
         if (this.isDisposed) return;
         
         this.isDisposed = true;
+        this.unregisterExport();
+        this.keyboard?.cleanup();
+        this.keyboard = null;
         
         // Nettoyer le ResizeObserver
         if (this.resizeObserver) {
@@ -244,6 +300,99 @@ export class EChartsTreemapService {
         return this.chart;
     }
 
+    /**
+     * Transmet le chemin du noeud zoomé à onZoomChange
+     */
+    private handleZoomEvent = (event: { targetNode?: TreemapViewNode | string }): void => {
+        const node = event?.targetNode;
+        if (!node || typeof node !== 'object') return;
+
+        this.currentOptions.onZoomChange?.(this.getNodePath(node));
+    };
+
+    /**
+     * Noms des noeuds depuis la racine (profondeur 0), qui n'apparaît pas dans le chemin
+     */
+    private getNodePath(node: TreemapViewNode): string[] {
+        const path: string[] = [];
+        for (let current: TreemapViewNode | null = node; current && current.depth > 0; current = current.parentNode) {
+            path.unshift(current.name);
+        }
+        return path;
+    }
+
+    /**
+     * Noeud auquel le treemap est zoomé
+     */
+    private getViewRoot(): TreemapViewNode | null {
+        const chart = this.chart as unknown as TreemapChartModel | null;
+        return chart?.getModel()?.getSeriesByIndex(0)?.getViewRoot() ?? null;
+    }
+
+    /**
+     * Enfants du noeud affiché, parcourus au clavier
+     */
+    private getViewNodes(): TreemapViewNode[] {
+        return this.getViewRoot()?.children ?? [];
+    }
+
+    private updateKeyboardMarks = (): void => {
+        this.keyboard?.setMarks(this.getViewNodes());
+    };
+
+    /**
+     * Navigation au clavier : le conteneur prend le focus, les flèches parcourent les noeuds
+     * de la vue courante (mis en évidence avec leur infobulle), Entrée zoome dans un noeud
+     * ou transmet le clic d'une feuille à onNodeClick et Échap remonte d'un niveau.
+     */
+    private setupKeyboard(): void {
+        const chart = this.chart;
+        if (!chart) return;
+
+        const { enableZoom, onNodeClick, ariaLabel } = this.currentOptions;
+        const target = (node: TreemapViewNode) => ({ seriesIndex: 0, dataIndex: node.dataIndex });
+
+        this.keyboard?.cleanup();
+        this.keyboard = useChartKeyboard<TreemapViewNode>({
+            container: this.container,
+            label: ariaLabel || '',
+            marks: this.getViewNodes(),
+            getKey: node => this.getNodePath(node).join('/'),
+            getLabel: node => node.name,
+            getDescription: node => `${node.name}: ${formatNumber(node.getValue())}`,
+            onFocus: node => {
+                chart.dispatchAction({ type: 'highlight', ...target(node) });
+                chart.dispatchAction({ type: 'showTip', ...target(node) });
+            },
+            onBlur: node => {
+                chart.dispatchAction({ type: 'downplay', ...target(node) });
+                chart.dispatchAction({ type: 'hideTip' });
+            },
+            onActivate: enableZoom || onNodeClick ? node => {
+                if (enableZoom && node.children.length > 0) {
+                    chart.dispatchAction({ type: 'treemapZoomToNode', seriesId: 'treemap-visualization', targetNode: node });
+                } else {
+                    // Mêmes paramètres principaux qu'un clic de souris
+                    onNodeClick?.({
+                        componentType: 'series',
+                        seriesType: 'treemap',
+                        seriesIndex: 0,
+                        name: node.name,
+                        dataIndex: node.dataIndex,
+                        data: node.getModel().option,
+                        value: node.getValue()
+                    });
+                }
+            } : undefined,
+            onEscape: enableZoom ? () => {
+                const parent = this.getViewRoot()?.parentNode;
+                if (parent) {
+                    chart.dispatchAction({ type: 'treemapRootToNode', seriesId: 'treemap-visualization', targetNode: parent });
+                }
+            } : undefined
+        });
+    }
+
     /**
      * Formatter de tooltip par défaut
      */
@@ -254,15 +403,15 @@ export class EChartsTreemapService {
         let tooltip = `<strong>${data.name}</strong><br/>`;
         
         if (data.wordCount !== undefined) {
-            tooltip += `Mots: ${data.wordCount.toLocaleString()}<br/>`;
+            tooltip += `Mots: ${formatNumber(data.wordCount)}<br/>`;
         }
         
         if (data.itemCount !== undefined) {
-            tooltip += `Éléments: ${data.itemCount.toLocaleString()}<br/>`;
+            tooltip += `Éléments: ${formatNumber(data.itemCount)}<br/>`;
         }
         
         if (data.value !== undefined) {
-            tooltip += `Valeur: ${data.value.toLocaleString()}`;
+            tooltip += `Valeur: ${formatNumber(data.value)}`;
         }
 
         return tooltip;
@@ -310,19 +459,51 @@ export class EChartsTreemapService {
         this.resizeObserver.observe(this.container);
     }
 
+    /**
+     * Donne aux libellés la couleur la plus contrastée avec leur cellule (blanc ou foncé).
+     * Les noeuds du premier niveau ont leur couleur (itemStyle.color) ou celle de la palette
+     * à leur position ; leurs enfants héritent de leur couleur.
+     */
+    private withReadableLabels(nodes: EChartsTreemapNode[], inheritedColor?: string): EChartsTreemapNode[] {
+        const palette = this.currentOptions.colors;
+
+        return nodes.map((node, index) => {
+            const color: string | undefined = node.itemStyle?.color
+                ?? inheritedColor
+                ?? (palette && palette.length > 0 ? palette[index % palette.length] : undefined);
+            if (!color) return node;
+
+            const textColor = getReadableTextColor(color, '#ffffff', '#1a202c');
+            // L'ombre du texte n'aide que le texte clair
+            const textShadowColor = textColor === '#ffffff' ? undefined : 'transparent';
+            return {
+                ...node,
+                label: { color: textColor, ...(textShadowColor && { textShadowColor }), ...node.label },
+                upperLabel: { color: textColor, ...(textShadowColor && { textShadowColor }), ...node.upperLabel },
+                ...(node.children && { children: this.withReadableLabels(node.children, color) })
+            };
+        });
+    }
+
     /**
      * Construit les options de configuration pour ECharts
      */
     private buildChartOptions(data: EChartsTreemapNode): any {
+        const chartTheme = getChartTheme(this.currentOptions.theme);
         const option: any = {
             tooltip: {
                 trigger: 'item',
+                backgroundColor: chartTheme.tooltipBackground,
+                borderColor: chartTheme.tooltipBorder,
+                textStyle: {
+                    color: chartTheme.tooltipText
+                },
                 formatter: this.currentOptions.onTooltip || this.defaultTooltipFormatter
             },
             series: [{
                 type: 'treemap',
                 id: 'treemap-visualization',
-                data: data.children || [data],
+                data: this.withReadableLabels(data.children || [data]),
                 
                 // Configuration de base
                 roam: this.currentOptions.roam,
@@ -340,7 +521,7 @@ export class EChartsTreemapService {
                     height: 25,
                     textStyle: {
                         fontSize: 12,
-                        color: '#666'
+                        color: chartTheme.textSecondary
                     }
                 },
 
@@ -349,7 +530,7 @@ export class EChartsTreemapService {
                     // Niveau racine - caché
                     {
                         itemStyle: {
-                            borderColor: '#fff',
+                            borderColor: chartTheme.background,
                             borderWidth: 0,
                             gapWidth: 2
                         },
@@ -363,13 +544,13 @@ export class EChartsTreemapService {
                     // Premier niveau (pays) - Labels visibles et proéminents
                     {
                         itemStyle: {
-                            borderColor: '#fff',
+                            borderColor: chartTheme.background,
                             borderWidth: 3,
                             gapWidth: 2
                         },
                         emphasis: {
                             itemStyle: {
-                                borderColor: '#ddd'
+                                borderColor: chartTheme.axis
                             }
                         },
                         label: {
@@ -396,7 +577,7 @@ export class EChartsTreemapService {
                     // Deuxième niveau (collections) - Labels plus petits
                     {
                         itemStyle: {
-                            borderColor: '#fff',
+                            borderColor: chartTheme.background,
                             borderWidth: 1,
                             gapWidth: 1
                         },
@@ -0,0 +1,117 @@
+import { writable } from 'svelte/store';
+import type { TimelineAnnotation } from '../types/TimelineAnnotation';
+import type { Language } from '../types/translations';
+import { LANGUAGES } from './translationStore';
+import { parseDate } from '../utils/dateParsing';
+
+/**
+ * Version of the annotations.json format this build understands
+ */
+export const ANNOTATIONS_VERSION = 1;
+
+// Served next to items.json
+const ANNOTATIONS_URL = `${import.meta.env.BASE_URL}annotations.json`;
+
+let loadPromise: Promise<TimelineAnnotation[]> | null = null;
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim() !== '';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the annotations of an annotations.json file.
+ * Entries without an id, a date parseDate understands or a label are skipped with a warning.
+ * A language without a label shows the English one, or else the first label given.
+ * @param data Parsed content of annotations.json
+ * @returns The valid annotations, empty when the file has another version
+ */
+export function parseAnnotations(data: unknown): TimelineAnnotation[] {
+    const file = data as { version?: unknown; annotations?: unknown } | null;
+    if (!file || typeof file !== 'object' || !Array.isArray(file.annotations)) {
+        console.warn('[annotationsStore] annotations.json has no annotations list');
+        return [];
+    }
+    if (file.version !== ANNOTATIONS_VERSION) {
+        console.warn(`[annotationsStore] Ignoring annotations.json version ${file.version}, expected ${ANNOTATIONS_VERSION}`);
+        return [];
+    }
+
+    const annotations: TimelineAnnotation[] = [];
+    file.annotations.forEach((entry: unknown, index: number) => {
+        const label = isRecord(entry) && isRecord(entry.label) ? entry.label : {};
+        // Given labels, English first so that it stands in for the missing languages
+        const given = new Map<Language, string>();
+        (['en', ...LANGUAGES.filter(language => language !== 'en')] as Language[]).forEach(language => {
+            const text = label[language];
+            if (isNonEmptyString(text)) given.set(language, text);
+        });
+        const fallbackLabel = given.values().next().value;
+
+        if (!isRecord(entry) || !isNonEmptyString(entry.id) || !isNonEmptyString(entry.date) ||
+            !parseDate(entry.date) || fallbackLabel === undefined) {
+            console.warn(`[annotationsStore] Skipping invalid annotation at position ${index}:`, entry);
+            return;
+        }
+
+        annotations.push({
+            id: entry.id,
+            date: entry.date,
+            label: Object.fromEntries(LANGUAGES.map(language =>
+                [language, given.get(language) ?? fallbackLabel])) as Record<Language, string>,
+            url: isNonEmptyString(entry.url) ? entry.url : undefined,
+            countries: Array.isArray(entry.countries) ? entry.countries.filter(isNonEmptyString) : undefined
+        });
+    });
+    return annotations;
+}
+
+/**
+ * Keeps the annotations concerning at least one of the selected countries,
+ * plus those concerning every country
+ * @param annotations The annotations to filter
+ * @param countries Selected countries (empty = no country filter)
+ */
+export function filterAnnotationsByCountries(annotations: TimelineAnnotation[], countries: string[]): TimelineAnnotation[] {
+    if (countries.length === 0) return annotations;
+    return annotations.filter(annotation =>
+        !annotation.countries || annotation.countries.length === 0 ||
+        annotation.countries.some(country => countries.includes(country)));
+}
+
+const createAnnotationsStore = () => {
+    const { subscribe, set } = writable<TimelineAnnotation[]>([]);
+
+    return {
+        subscribe,
+
+        /**
+         * Loads annotations.json once. A missing or invalid file only leaves the timeline without markers.
+         */
+        load: (): Promise<TimelineAnnotation[]> => {
+            if (loadPromise) return loadPromise;
+
+            loadPromise = (async () => {
+                try {
+                    const response = await fetch(ANNOTATIONS_URL);
+                    if (!response.ok) {
+                        throw new Error(`HTTP ${response.status}`);
+                    }
+                    const annotations = parseAnnotations(await response.json());
+                    set(annotations);
+                    return annotations;
+                } catch (error) {
+                    console.warn('[annotationsStore] Could not load annotations.json:', error);
+                    return [];
+                }
+            })();
+
+            return loadPromise;
+        }
+    };
+};
+
+export const annotationsStore = createAnnotationsStore();
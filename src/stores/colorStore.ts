@@ -0,0 +1,90 @@
+import { derived, get, type Readable } from 'svelte/store';
+import { activeTheme } from './themeStore';
+import { dataCubeStore, createEmptyFilters } from './filterStore';
+import { getColorPalette, getPaletteColor, type PaletteName } from '../utils/colorPalette';
+import { createPersistedStore } from '../utils/persistedStore';
+import { subcollectionCategories } from '../types/SubcollectionCategories';
+import type { CubeDimension, DataCube } from '../utils/dataCube';
+import type { ColorDomain, CategoryColorScale } from '../types/theme';
+
+// Palettes of the palette menu for countries, types, languages and categories
+export const CATEGORY_PALETTES = ['primary', 'okabeIto', 'viridis', 'professional'] as const satisfies readonly PaletteName[];
+
+export type CategoryPalette = typeof CATEGORY_PALETTES[number];
+
+// Create a store for the chosen palette, kept across visits
+function createPaletteStore() {
+    const { subscribe, set } = createPersistedStore<CategoryPalette>({
+        key: 'iwac-palette',
+        values: CATEGORY_PALETTES,
+        defaultValue: 'primary'
+    });
+
+    return {
+        subscribe,
+        setPalette: (palette: CategoryPalette) => set(palette)
+    };
+}
+
+export const paletteStore = createPaletteStore();
+
+// Position in the palette of each value, by domain. Positions are never reassigned,
+// so a value keeps its color in every chart and across palette and theme changes.
+const positions: Record<ColorDomain, Map<string, number>> = {
+    country: new Map(),
+    type: new Map(),
+    language: new Map(),
+    category: new Map()
+};
+
+function getPosition(domain: ColorDomain, key: string): number {
+    const domainPositions = positions[domain];
+    let position = domainPositions.get(key);
+    if (position === undefined) {
+        position = domainPositions.size;
+        domainPositions.set(key, position);
+    }
+    return position;
+}
+
+// Cube dimension holding the values of each domain counted in the items
+const DOMAIN_DIMENSIONS: Partial<Record<ColorDomain, CubeDimension>> = {
+    country: 'countries',
+    type: 'types',
+    language: 'languages'
+};
+
+// Categories take the order in which they are defined
+Object.keys(subcollectionCategories).forEach(id => getPosition('category', id));
+
+let seededCube: DataCube | null = null;
+
+// Give the first colors to the most frequent values, whichever chart is drawn first,
+// so that the colors do not depend on the tab the visit starts on
+function seedPositions(cube: DataCube) {
+    if (cube === seededCube) return;
+    seededCube = cube;
+
+    const query = { filters: createEmptyFilters() };
+    (Object.entries(DOMAIN_DIMENSIONS) as [ColorDomain, CubeDimension][]).forEach(([domain, dimension]) => {
+        Array.from(cube.facetCounts(dimension, query).entries())
+            .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+            .forEach(([key]) => getPosition(domain, key));
+    });
+}
+
+/**
+ * Colors of countries, types, languages and subcollection categories, shared by every chart.
+ * Changes when the palette or the theme changes: charts redraw with the new function.
+ */
+export const categoryColors: Readable<CategoryColorScale> = derived(
+    [paletteStore, activeTheme],
+    ([$palette, $theme]) => {
+        const colors = getColorPalette($palette, undefined, $theme);
+        return (domain: ColorDomain, key: string) => {
+            // Seeded on the first color asked for after the items are loaded
+            seedPositions(get(dataCubeStore));
+            return getPaletteColor(colors, getPosition(domain, key));
+        };
+    }
+);
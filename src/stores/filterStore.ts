@@ -0,0 +1,163 @@
+import { writable, derived, get } from 'svelte/store';
+import itemsStore from './itemsStore';
+import { useDataProcessing } from '../hooks/useDataProcessing';
+import { createDataCube, type DataCube } from '../utils/dataCube';
+import {
+    FACET_FILTER_KEYS,
+    getFacetValue,
+    type FacetFilterKey,
+    type RangeFilterKey,
+    type FilterKey,
+    type FilterState
+} from '../utils/filterState';
+import { extractYear } from '../utils/dateParsing';
+import type { OmekaItem } from '../types/OmekaItem';
+
+export {
+    FACET_FILTER_KEYS,
+    getFacetValue,
+    type FacetFilterKey,
+    type RangeFilterKey,
+    type FilterKey,
+    type FilterState
+};
+
+export function createEmptyFilters(): FilterState {
+    return {
+        countries: [],
+        types: [],
+        languages: [],
+        itemSets: [],
+        categories: [],
+        publicationYears: null,
+        createdDates: null
+    };
+}
+
+/**
+ * Check whether an item matches the filters.
+ * Dimensions listed in `ignore` are skipped, which is what facets need to
+ * count the values of their own dimension.
+ */
+export function matchesFilters(item: OmekaItem, filters: FilterState, ignore: FilterKey[] = []): boolean {
+    for (const key of FACET_FILTER_KEYS) {
+        if (filters[key].length === 0 || ignore.includes(key)) continue;
+        if (!filters[key].includes(getFacetValue(item, key))) return false;
+    }
+
+    if (filters.publicationYears && !ignore.includes('publicationYears')) {
+        const year = extractYear(item.publication_date);
+        if (year === null || year < filters.publicationYears[0] || year > filters.publicationYears[1]) {
+            return false;
+        }
+    }
+
+    if (filters.createdDates && !ignore.includes('createdDates')) {
+        const created = item.created_date?.substring(0, 10);
+        if (!created || created < filters.createdDates[0] || created > filters.createdDates[1]) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+// Data cube of the loaded dataset, rebuilt only when itemsStore publishes new items
+let dataCube: DataCube | null = null;
+
+/**
+ * Get the data cube indexing a list of items, building it on first use
+ */
+export function getDataCube(items: OmekaItem[]): DataCube {
+    if (!dataCube || dataCube.source !== items) {
+        dataCube = createDataCube(items);
+    }
+    return dataCube;
+}
+
+/**
+ * Apply the filters to a list of items.
+ * The items of itemsStore are answered from their data cube; other lists are scanned
+ * with the data processing hook.
+ */
+export function applyFilters(items: OmekaItem[], filters: FilterState, ignore: FilterKey[] = []): OmekaItem[] {
+    if (items === get(itemsStore).items) {
+        return getDataCube(items).items({ filters, ignore });
+    }
+
+    const { filterItems } = useDataProcessing({
+        filterFn: item => matchesFilters(item, filters, ignore)
+    });
+    return filterItems(items);
+}
+
+/**
+ * Whether at least one filter is active
+ */
+export function hasActiveFilters(filters: FilterState): boolean {
+    return FACET_FILTER_KEYS.some(key => filters[key].length > 0) ||
+        filters.publicationYears !== null ||
+        filters.createdDates !== null;
+}
+
+const createFilterStore = () => {
+    const { subscribe, set, update } = writable<FilterState>(createEmptyFilters());
+
+    return {
+        subscribe,
+        set,
+
+        /** Replace the selected values of a facet dimension */
+        setValues: (key: FacetFilterKey, values: string[]) => {
+            update(state => ({ ...state, [key]: [...new Set(values)] }));
+        },
+
+        /** Add or remove a single value of a facet dimension */
+        toggleValue: (key: FacetFilterKey, value: string) => {
+            update(state => ({
+                ...state,
+                [key]: state[key].includes(value)
+                    ? state[key].filter(v => v !== value)
+                    : [...state[key], value]
+            }));
+        },
+
+        /** Remove a single value of a facet dimension */
+        removeValue: (key: FacetFilterKey, value: string) => {
+            update(state => ({ ...state, [key]: state[key].filter(v => v !== value) }));
+        },
+
+        setPublicationYears: (range: [number, number] | null) => {
+            update(state => ({ ...state, publicationYears: range }));
+        },
+
+        setCreatedDates: (range: [string, string] | null) => {
+            update(state => ({ ...state, createdDates: range }));
+        },
+
+        /** Clear one dimension */
+        clearFilter: (key: FilterKey) => {
+            update(state => ({ ...state, [key]: createEmptyFilters()[key] }));
+        },
+
+        /** Clear every dimension */
+        reset: () => {
+            set(createEmptyFilters());
+        }
+    };
+};
+
+export const filterStore = createFilterStore();
+
+/**
+ * Data cube of the items in itemsStore, for facet counts and chart data
+ */
+export const dataCubeStore = derived(itemsStore, $itemsStore => getDataCube($itemsStore.items));
+
+/**
+ * Items from itemsStore that match the active filters
+ */
+export const filteredItems = derived(
+    [dataCubeStore, filterStore],
+    ([$dataCube, $filterStore]) => $dataCube.items({ filters: $filterStore })
+);
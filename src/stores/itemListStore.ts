@@ -0,0 +1,30 @@
+import { writable } from 'svelte/store';
+import type { OmekaItem } from '../types/OmekaItem';
+
+/**
+ * Items behind a clicked chart mark, shown in the item list panel
+ */
+export interface ItemListSelection {
+    /** Description of the mark, e.g. "Bénin › Article de presse" */
+    title: string;
+    items: OmekaItem[];
+}
+
+const createItemListStore = () => {
+    const { subscribe, set } = writable<ItemListSelection | null>(null);
+
+    return {
+        subscribe,
+
+        /** Open the panel with the items of a chart mark */
+        open: (title: string, items: OmekaItem[]) => {
+            set({ title, items });
+        },
+
+        close: () => {
+            set(null);
+        }
+    };
+};
+
+export const itemListStore = createItemListStore();
@@ -1,8 +1,24 @@
 import { writable } from 'svelte/store';
 import type { OmekaItem, VisualizationData } from '../types/OmekaItem';
+import { validateItems, type DataQualityReport } from '../utils/itemValidation';
+import { readCachedDataset, writeCachedDataset, type CachedDataset } from '../services/itemsCache';
+
+/**
+ * Freshness of the loaded dataset, shown in the header
+ */
+export interface DataStatus {
+    /** ISO timestamp of the last time the server confirmed or sent the dataset */
+    lastRefreshed: string | null;
+    /** Set when a newer snapshot replaced the cached one during this visit */
+    updated: boolean;
+}
 
 // Keep track of loading state outside the store to prevent multiple simultaneous loads
 let loadPromise: Promise<any> | null = null;
+let isRevalidating = false;
+
+// Use Vite's built-in BASE_URL which respects the 'base' config
+const ITEMS_URL = `${import.meta.env.BASE_URL}items.json`;
 
 // Create the store with initial values
 const { subscribe, set, update } = writable<VisualizationData>({
@@ -11,26 +27,122 @@ const { subscribe, set, update } = writable<VisualizationData>({
     error: null
 });
 
+// Data quality report of the last load, shown in the Data quality tab
+export const dataQualityStore = writable<DataQualityReport | null>(null);
+
+// Freshness of the dataset and "data updated" notice
+export const dataStatusStore = writable<DataStatus>({ lastRefreshed: null, updated: false });
+
+// Validate a snapshot and publish its items and quality report
+function applyDataset(data: unknown): OmekaItem[] {
+    // Check every record before handing the items to the visualizations
+    const { items, report } = validateItems(data);
+    dataQualityStore.set(report);
+    if (report.excludedRecords > 0) {
+        console.warn(`[itemsStore] Excluded ${report.excludedRecords} of ${report.totalRecords} records, see the Data quality tab`);
+    }
+    set({ items, loading: false, error: null });
+    return items;
+}
+
+// Build the cache entry for a response
+function toCachedDataset(response: Response, data: unknown): CachedDataset {
+    return {
+        data,
+        etag: response.headers.get('ETag'),
+        lastModified: response.headers.get('Last-Modified'),
+        refreshedAt: new Date().toISOString()
+    };
+}
+
+// Ask the server whether the cached snapshot is still current and swap in a newer one.
+// Failures are only logged since the cached data is already shown.
+async function revalidate(cached: CachedDataset) {
+    if (isRevalidating) return;
+    isRevalidating = true;
+
+    try {
+        const headers: Record<string, string> = {};
+        if (cached.etag) headers['If-None-Match'] = cached.etag;
+        if (cached.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+        // no-cache makes the browser check with the server instead of answering from its HTTP cache
+        const response = await fetch(ITEMS_URL, { headers, cache: 'no-cache' });
+
+        if (response.status === 304) {
+            const refreshed = { ...cached, refreshedAt: new Date().toISOString() };
+            await writeCachedDataset(refreshed);
+            dataStatusStore.update(status => ({ ...status, lastRefreshed: refreshed.refreshedAt }));
+            return;
+        }
+
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+
+        const data = await response.json();
+        const entry = toCachedDataset(response, data);
+
+        // Servers without validators answer 200 every time, so compare the content
+        const unchanged = entry.etag && cached.etag
+            ? entry.etag === cached.etag
+            : JSON.stringify(data) === JSON.stringify(cached.data);
+
+        if (!unchanged) {
+            applyDataset(data);
+        }
+
+        await writeCachedDataset(entry);
+        dataStatusStore.update(status => ({
+            lastRefreshed: entry.refreshedAt,
+            updated: status.updated || !unchanged
+        }));
+    } catch (error) {
+        console.warn('[itemsStore] Could not revalidate the cached dataset:', error);
+    } finally {
+        isRevalidating = false;
+    }
+}
+
 // Create a store object with methods
 const itemsStore = {
     subscribe,
-    
+
     // The loadItems method with cache to prevent multiple simultaneous loads
     loadItems: async () => {
         // Return existing promise if already loading
         if (loadPromise) {
             return loadPromise;
         }
-        
+
         update(state => ({ ...state, loading: true, error: null }));
-        
+
         // Create new load promise
         loadPromise = (async () => {
             try {
-                // Use Vite's built-in BASE_URL which respects the 'base' config
-                const response = await fetch(`${import.meta.env.BASE_URL}items.json`);
-                const items = await response.json();
-                set({ items, loading: false, error: null });
+                // Show the cached snapshot right away and revalidate it in the background
+                const cached = await readCachedDataset();
+                if (cached) {
+                    try {
+                        const items = applyDataset(cached.data);
+                        dataStatusStore.update(status => ({ ...status, lastRefreshed: cached.refreshedAt }));
+                        revalidate(cached);
+                        return items;
+                    } catch (error) {
+                        console.warn('[itemsStore] Ignoring the invalid cached dataset:', error);
+                    }
+                }
+
+                const response = await fetch(ITEMS_URL);
+                if (!response.ok) {
+                    throw new Error(`Failed to load items (HTTP ${response.status})`);
+                }
+                const data = await response.json();
+                const items = applyDataset(data);
+
+                const entry = toCachedDataset(response, data);
+                dataStatusStore.update(status => ({ ...status, lastRefreshed: entry.refreshedAt }));
+                writeCachedDataset(entry);
                 return items;
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : 'Failed to load items';
@@ -45,10 +157,15 @@ const itemsStore = {
                 loadPromise = null;
             }
         })();
-        
+
         return loadPromise;
+    },
+
+    // Hide the "data updated" notice
+    dismissUpdateNotice: () => {
+        dataStatusStore.update(status => ({ ...status, updated: false }));
     }
 };
 
 // Export as default to match existing imports across the codebase
-export default itemsStore; 
\ No newline at end of file
+export default itemsStore;
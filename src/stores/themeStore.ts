@@ -0,0 +1,84 @@
+import { readable, derived, get, type Readable } from 'svelte/store';
+import { createPersistedStore } from '../utils/persistedStore';
+import type { Theme, ThemePreference, ChartTheme } from '../types/theme';
+
+// Themes of the theme menu, after 'auto'
+export const THEMES: Theme[] = ['light', 'dark', 'high-contrast'];
+
+// Create a store for the chosen theme, kept across visits
+function createThemeStore() {
+    const { subscribe, set } = createPersistedStore<ThemePreference>({
+        key: 'iwac-theme',
+        values: ['auto', ...THEMES],
+        defaultValue: 'auto'
+    });
+
+    return {
+        subscribe,
+        setTheme: (preference: ThemePreference) => set(preference)
+    };
+}
+
+export const themeStore = createThemeStore();
+
+// Theme asked for by the system settings: more contrast first, then dark mode
+const systemTheme: Readable<Theme> = readable<Theme>('light', set => {
+    if (typeof window === 'undefined' || !window.matchMedia) return;
+
+    const contrastQuery = window.matchMedia('(prefers-contrast: more)');
+    const darkQuery = window.matchMedia('(prefers-color-scheme: dark)');
+    const update = () => set(contrastQuery.matches ? 'high-contrast' : darkQuery.matches ? 'dark' : 'light');
+
+    update();
+    contrastQuery.addEventListener('change', update);
+    darkQuery.addEventListener('change', update);
+    return () => {
+        contrastQuery.removeEventListener('change', update);
+        darkQuery.removeEventListener('change', update);
+    };
+});
+
+// Theme in use: the chosen one, or the system's when the choice is 'auto'
+export const activeTheme: Readable<Theme> = derived(
+    [themeStore, systemTheme],
+    ([$preference, $system]) => $preference === 'auto' ? $system : $preference
+);
+
+// Resolved chart colors of each theme, read once from the stylesheet
+const chartThemes = new Map<Theme, ChartTheme>();
+
+/**
+ * Colors of a theme (the active one by default) for charts that need plain color values.
+ * The values come from the CSS variables of the theme, so default-theme.css stays the only definition.
+ */
+export function getChartTheme(theme: Theme = get(activeTheme)): ChartTheme {
+    const cached = chartThemes.get(theme);
+    if (cached) return cached;
+
+    // Read the variables on a hidden element carrying the theme, whatever the theme of the page
+    const probe = document.createElement('div');
+    probe.dataset.theme = theme;
+    probe.hidden = true;
+    document.body.appendChild(probe);
+    const styles = getComputedStyle(probe);
+    const read = (name: string, fallback: string) => styles.getPropertyValue(name).trim() || fallback;
+
+    const chartTheme: ChartTheme = {
+        theme,
+        background: read('--color-bg-card', '#FFFFFF'),
+        pageBackground: read('--color-bg-page', '#FAFBFD'),
+        text: read('--chart-text', '#1A202C'),
+        textSecondary: read('--chart-text-secondary', '#4A5568'),
+        axis: read('--chart-axis', '#CBD5E0'),
+        grid: read('--chart-grid', '#EDF2F7'),
+        tooltipBackground: read('--chart-tooltip-bg', 'rgba(26, 32, 44, 0.95)'),
+        tooltipText: read('--chart-tooltip-text', '#FFFFFF'),
+        tooltipBorder: read('--chart-tooltip-border', 'rgba(255, 255, 255, 0.1)')
+    };
+    // Only keep values read from a loaded stylesheet
+    if (styles.getPropertyValue('--chart-text')) {
+        chartThemes.set(theme, chartTheme);
+    }
+    probe.remove();
+    return chartTheme;
+}
@@ -0,0 +1,134 @@
+import { writable, get } from 'svelte/store';
+import type { TimeGranularity } from '../utils/dataProcessing';
+import type { ForecastMethod } from '../utils/forecast';
+
+/**
+ * Pie or donut rendering of the language distribution
+ */
+export type ChartMode = 'pie' | 'donut';
+
+/**
+ * Date charted by the timeline: when items were added, or when they were published
+ */
+export type TimelineMode = 'created' | 'published';
+
+/**
+ * Period size of the publication timeline
+ */
+export type PublicationBin = 'year' | 'decade';
+
+/**
+ * Facet the publication timeline is stacked by
+ */
+export type PublicationStack = 'country' | 'type';
+
+/**
+ * Month the collection growth is measured from by default (YYYY-MM)
+ */
+export const DEFAULT_BASELINE_MONTH = '2024-04';
+
+/**
+ * Per-tab view state that is not a filter but should survive a shared link
+ */
+export interface ViewState {
+    /** Names of the nodes from the root to the zoomed treemap node (empty = not zoomed) */
+    zoomPath: string[];
+    /** Chart mode of the language distribution */
+    chartMode: ChartMode;
+    /** Month (YYYY-MM) the collection growth is measured from */
+    baselineMonth: string;
+    /** Period size of the collection growth timeline */
+    timeGranularity: TimeGranularity;
+    /** Date charted by the timeline */
+    timelineMode: TimelineMode;
+    /** Period size of the publication timeline */
+    publicationBin: PublicationBin;
+    /** Facet the publication timeline is stacked by */
+    publicationStack: PublicationStack;
+    /** Trend projected on the collection growth ('none' = no forecast) */
+    forecastMethod: ForecastMethod | 'none';
+    /** Number of periods projected by the forecast */
+    forecastHorizon: number;
+}
+
+export function createDefaultViewState(): ViewState {
+    return {
+        zoomPath: [],
+        chartMode: 'donut',
+        baselineMonth: DEFAULT_BASELINE_MONTH,
+        timeGranularity: 'month',
+        timelineMode: 'created',
+        publicationBin: 'year',
+        publicationStack: 'country',
+        forecastMethod: 'none',
+        forecastHorizon: 12
+    };
+}
+
+/**
+ * Whether two zoom paths point to the same node
+ */
+export function isSameZoomPath(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((name, i) => name === b[i]);
+}
+
+const createViewStateStore = () => {
+    const { subscribe, set, update } = writable<ViewState>(createDefaultViewState());
+
+    return {
+        subscribe,
+        set,
+
+        setZoomPath: (zoomPath: string[]) => {
+            // Avoid notifying subscribers when the path did not change
+            if (isSameZoomPath(get({ subscribe }).zoomPath, zoomPath)) return;
+            update(state => ({ ...state, zoomPath: [...zoomPath] }));
+        },
+
+        setChartMode: (chartMode: ChartMode) => {
+            if (get({ subscribe }).chartMode === chartMode) return;
+            update(state => ({ ...state, chartMode }));
+        },
+
+        setBaselineMonth: (baselineMonth: string) => {
+            if (get({ subscribe }).baselineMonth === baselineMonth) return;
+            update(state => ({ ...state, baselineMonth }));
+        },
+
+        setTimeGranularity: (timeGranularity: TimeGranularity) => {
+            if (get({ subscribe }).timeGranularity === timeGranularity) return;
+            update(state => ({ ...state, timeGranularity }));
+        },
+
+        setTimelineMode: (timelineMode: TimelineMode) => {
+            if (get({ subscribe }).timelineMode === timelineMode) return;
+            update(state => ({ ...state, timelineMode }));
+        },
+
+        setPublicationBin: (publicationBin: PublicationBin) => {
+            if (get({ subscribe }).publicationBin === publicationBin) return;
+            update(state => ({ ...state, publicationBin }));
+        },
+
+        setPublicationStack: (publicationStack: PublicationStack) => {
+            if (get({ subscribe }).publicationStack === publicationStack) return;
+            update(state => ({ ...state, publicationStack }));
+        },
+
+        setForecastMethod: (forecastMethod: ForecastMethod | 'none') => {
+            if (get({ subscribe }).forecastMethod === forecastMethod) return;
+            update(state => ({ ...state, forecastMethod }));
+        },
+
+        setForecastHorizon: (forecastHorizon: number) => {
+            if (get({ subscribe }).forecastHorizon === forecastHorizon) return;
+            update(state => ({ ...state, forecastHorizon }));
+        },
+
+        reset: () => {
+            set(createDefaultViewState());
+        }
+    };
+};
+
+export const viewStateStore = createViewStateStore();
@@ -0,0 +1,70 @@
+import type { OmekaItem } from './OmekaItem';
+import type { HierarchicalData, ProcessedDataItem, TimeSeriesOptions, TimeSeriesPeriod } from '../utils/dataProcessing';
+
+/**
+ * Processing options that can be sent to the worker (DataProcessingOptions without filterFn)
+ */
+export interface AggregationOptions {
+    filterMissingValues?: boolean;
+    requiredFields?: string[];
+    calculatePercentages?: boolean;
+    sortByCount?: boolean;
+    sortDescending?: boolean;
+}
+
+interface QueryBase {
+    /** Ids of the items to aggregate, already filtered by the custom filter function */
+    itemIds: number[];
+    options: AggregationOptions;
+    totalItems?: number;
+}
+
+export interface GroupAndCountQuery extends QueryBase {
+    kind: 'groupAndCount';
+    /**
+     * Key of each item, in the order of itemIds. Functions cannot be sent to a worker,
+     * so the hook runs the key function on the main thread.
+     */
+    keys: string[];
+}
+
+export interface GroupHierarchicallyQuery extends QueryBase {
+    kind: 'groupHierarchically';
+    /** Keys of each item, one per level, computed like those of groupAndCount */
+    keys: string[][];
+    /** Value of each item, summed by the leaves (default: their number of items) */
+    values?: number[];
+}
+
+export interface TimeSeriesQuery extends QueryBase, TimeSeriesOptions {
+    kind: 'timeSeries';
+    dateField: keyof OmekaItem;
+}
+
+export type AggregationQuery = GroupAndCountQuery | GroupHierarchicallyQuery | TimeSeriesQuery;
+
+/**
+ * Result of each kind of query, the return type of the matching useDataProcessing function
+ */
+export interface AggregationResults {
+    groupAndCount: ProcessedDataItem[];
+    groupHierarchically: { name: string; children: HierarchicalData[] };
+    timeSeries: TimeSeriesPeriod[];
+}
+
+export type AggregationResult<K extends AggregationQuery['kind'] = AggregationQuery['kind']> = AggregationResults[K];
+
+/**
+ * Messages sent to the aggregation worker
+ */
+export type AggregationRequest =
+    | { type: 'setItems'; items: OmekaItem[] }
+    | { type: 'query'; id: number; query: AggregationQuery }
+    | { type: 'cancel'; id: number };
+
+/**
+ * Messages sent back by the aggregation worker
+ */
+export type AggregationResponse =
+    | { type: 'result'; id: number; result: AggregationResult }
+    | { type: 'error'; id: number; message: string };
@@ -1,7 +1,10 @@
+import type { Language } from './translations';
+
 export interface SubcollectionCategory {
     id: string;
     nameEn: string;
     nameFr: string;
+    nameAr: string;
     description?: string;
 }
 
@@ -15,42 +18,49 @@ export const subcollectionCategories: Record<string, SubcollectionCategory> = {
         id: 'news_article',
         nameEn: 'News article',
         nameFr: 'Article de presse',
+        nameAr: 'مقال صحفي',
         description: 'Newspaper and magazine articles'
     },
     'islamic_periodical': {
         id: 'islamic_periodical',
         nameEn: 'Islamic periodical',
         nameFr: 'Périodique islamique',
+        nameAr: 'دورية إسلامية',
         description: 'Islamic magazines and periodicals'
     },
     'documents': {
         id: 'documents',
         nameEn: 'Documents',
         nameFr: 'Documents divers',
+        nameAr: 'وثائق متنوعة',
         description: 'Various documents'
     },
     'photographs': {
         id: 'photographs',
         nameEn: 'Photographs',
         nameFr: 'Photographies',
+        nameAr: 'صور فوتوغرافية',
         description: 'Photographs and images'
     },
     'video_recording': {
         id: 'video_recording',
         nameEn: 'Video recording',
         nameFr: 'Enregistrement vidéo',
+        nameAr: 'تسجيل فيديو',
         description: 'Video recordings and footage'
     },
     'references': {
         id: 'references',
         nameEn: 'References',
         nameFr: 'Références',
+        nameAr: 'مراجع',
         description: 'Reference materials'
     },
     'other': {
         id: 'other',
         nameEn: 'Other',
         nameFr: 'Autre',
+        nameAr: 'أخرى',
         description: 'Uncategorized items'
     }
 };
@@ -175,7 +185,14 @@ export function getCategoryForSubcollection(subcollectionName: string): Subcolle
 }
 
 // Helper function to get translated category name based on language
-export function getTranslatedCategoryName(categoryId: string, language: 'en' | 'fr'): string {
+export function getTranslatedCategoryName(categoryId: string, language: Language): string {
     const category = subcollectionCategories[categoryId] || subcollectionCategories['other'];
-    return language === 'fr' ? category.nameFr : category.nameEn;
+    switch (language) {
+        case 'fr':
+            return category.nameFr;
+        case 'ar':
+            return category.nameAr;
+        default:
+            return category.nameEn;
+    }
 } 
\ No newline at end of file
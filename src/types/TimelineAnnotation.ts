@@ -0,0 +1,26 @@
+import type { Language } from './translations';
+
+/**
+ * An event marked on the collection growth timeline, as defined in annotations.json
+ */
+export interface TimelineAnnotation {
+    /** Stable identifier of the event */
+    id: string;
+    /** Date of the event, in any format understood by parseDate (e.g. 2024-04-15, 2024-04) */
+    date: string;
+    /** Label in each interface language */
+    label: Record<Language, string>;
+    /** Page describing the event, opened when the marker is clicked */
+    url?: string;
+    /** Countries the event concerns, as in the country field of items (none = every country) */
+    countries?: string[];
+}
+
+/**
+ * Content of annotations.json
+ */
+export interface AnnotationsFile {
+    /** Version of the file format, see ANNOTATIONS_VERSION */
+    version: number;
+    annotations: TimelineAnnotation[];
+}
@@ -1,4 +1,6 @@
 import type { SvelteComponentTyped } from 'svelte';
+import type { TranslationKey } from './translations';
+import type { Theme } from './theme';
 
 // Define a generic type for Svelte components
 declare module '*.svelte' {
@@ -10,8 +12,16 @@ declare module 'src/components/DebugPanel.svelte' {
   export default class DebugPanel extends SvelteComponentTyped<{}, {}, {}> {}
 }
 
-declare module 'src/components/LanguageToggle.svelte' {
-  export default class LanguageToggle extends SvelteComponentTyped<{}, {}, {}> {}
+declare module 'src/components/LanguageMenu.svelte' {
+  export default class LanguageMenu extends SvelteComponentTyped<{}, {}, {}> {}
+}
+
+declare module 'src/components/ThemeMenu.svelte' {
+  export default class ThemeMenu extends SvelteComponentTyped<{}, {}, {}> {}
+}
+
+declare module 'src/components/TranslationDebugOverlay.svelte' {
+  export default class TranslationDebugOverlay extends SvelteComponentTyped<{}, {}, {}> {}
 }
 
 declare module 'src/components/TranslationContext.svelte' {
@@ -21,14 +31,14 @@ declare module 'src/components/TranslationContext.svelte' {
 declare module 'src/components/visualizations/BaseVisualization.svelte' {
   export default class BaseVisualization extends SvelteComponentTyped<{
     title?: string;
-    translationKey?: string;
+    translationKey?: TranslationKey | '';
     description?: string;
-    descriptionTranslationKey?: string;
+    descriptionTranslationKey?: TranslationKey | '';
     showDescription?: boolean;
     titleHtml?: string;
     ariaLabel?: string;
     enableResizeObserver?: boolean;
-    theme?: 'default' | 'light' | 'dark' | 'custom';
+    theme?: 'default' | 'custom' | Theme;
     customBackground?: string;
     customTextColor?: string;
     minHeight?: string;
@@ -69,10 +79,10 @@ declare module 'src/components/visualizations/WordDistribution.svelte' {
 declare module 'src/components/visualizations/VisualizationHeader.svelte' {
   export default class VisualizationHeader extends SvelteComponentTyped<{
     title: string;
-    translationKey?: string;
+    translationKey?: TranslationKey | '';
     description?: string;
     showDescription?: boolean;
-    descriptionTranslationKey?: string;
+    descriptionTranslationKey?: TranslationKey | '';
     titleHtml?: string;
     descriptionId: string;
     className?: string;
@@ -1,6 +1,6 @@
 import { Readable, Writable } from 'svelte/store';
 import type { OmekaItem, VisualizationData } from './OmekaItem';
-import type { Language, TranslationStore, TranslationFunction, ReactiveTranslationFunction, TranslationKeys, TranslationParams } from './translations';
+import type { Language, TranslationStore, TranslationFunction, ReactiveTranslationFunction, TranslationKeys, TranslationKey, TranslationParams } from './translations';
 
 // Extend the global declarations
 declare global {
@@ -53,5 +53,5 @@ declare type StoreValue<T> = T extends { [$type]: infer U } ? U : never;
 
 // Add type declarations for translation store
 declare module '../stores/translationStore' {
-  export type { Language, TranslationStore, TranslationFunction, ReactiveTranslationFunction, TranslationKeys, TranslationParams };
+  export type { Language, TranslationStore, TranslationFunction, ReactiveTranslationFunction, TranslationKeys, TranslationKey, TranslationParams };
 } 
\ No newline at end of file
@@ -0,0 +1,44 @@
+/**
+ * Color theme of the interface and the charts
+ */
+export type Theme = 'light' | 'dark' | 'high-contrast';
+
+/**
+ * Theme chosen in the theme menu: a theme, or 'auto' to follow the system settings
+ */
+export type ThemePreference = 'auto' | Theme;
+
+/**
+ * Resolved colors of a theme, for charts that cannot use CSS variables
+ * (ECharts options, exported images). Each one comes from a --chart-* or --color-* variable.
+ */
+export interface ChartTheme {
+    theme: Theme;
+    /** Background of the chart cards (--color-bg-card) */
+    background: string;
+    /** Background of the page, used behind exported images (--color-bg-page) */
+    pageBackground: string;
+    /** Titles and values (--chart-text) */
+    text: string;
+    /** Axis labels and secondary text (--chart-text-secondary) */
+    textSecondary: string;
+    /** Axis lines and ticks (--chart-axis) */
+    axis: string;
+    /** Grid lines (--chart-grid) */
+    grid: string;
+    /** Tooltip background, text and border (--chart-tooltip-bg, --chart-tooltip-text, --chart-tooltip-border) */
+    tooltipBackground: string;
+    tooltipText: string;
+    tooltipBorder: string;
+}
+
+/**
+ * Kinds of values that keep the same color in every chart
+ */
+export type ColorDomain = 'country' | 'type' | 'language' | 'category';
+
+/**
+ * Color of a value of a domain, e.g. `colorOf('country', 'Niger')`.
+ * A value keeps its position in the palette for the whole session.
+ */
+export type CategoryColorScale = (domain: ColorDomain, key: string) => string;
@@ -1,7 +1,20 @@
 import type { Readable } from 'svelte/store';
+import type defaultCatalog from '../locales/en.json';
 
 // Define supported languages
-export type Language = 'en' | 'fr';
+export type Language = 'en' | 'fr' | 'ar';
+
+// Writing direction of a language
+export type TextDirection = 'ltr' | 'rtl';
+
+// Define how a language is presented and formatted
+export interface LanguageInfo {
+  /** Name of the language in itself, shown in the language menu */
+  nativeName: string;
+  /** BCP 47 locale used for numbers and dates */
+  locale: string;
+  direction: TextDirection;
+}
 
 // Define translation namespaces
 export type TranslationNamespace = 
@@ -21,6 +34,9 @@ export interface TranslationKeys {
   };
 }
 
+// Keys of the default (English) catalog, the only keys t() and translate() accept
+export type TranslationKey = keyof typeof defaultCatalog;
+
 // Define a type for translation keys with parameters
 export type TranslationKeyWithParams = {
   key: string;
@@ -40,11 +56,33 @@ export type TranslationParams = Record<string, string | number>;
 export interface TranslationStore {
   subscribe: (callback: (value: Language) => void) => () => void;
   setLanguage: (language: Language) => void;
-  toggleLanguage: () => void;
 }
 
 // Define a type for the translation function
-export type TranslationFunction = (key: string, params?: TranslationParams) => string;
+export type TranslationFunction = (key: TranslationKey, params?: TranslationParams) => string;
 
 // Define a type for the reactive translation function
-export type ReactiveTranslationFunction = (key: string, params?: TranslationParams) => Readable<string>; 
\ No newline at end of file
+export type ReactiveTranslationFunction = (key: TranslationKey, params?: TranslationParams) => Readable<string>;
+
+// A key missing from the catalog of a language
+export interface MissingTranslation {
+  key: string;
+  language: Language;
+  /** Language whose translation was used instead, null when the key itself was shown */
+  fallbackLanguage: Language | null;
+}
+
+// Define a type for the functions registered with onMissingTranslation
+export type MissingTranslationHandler = (missing: MissingTranslation) => void;
+
+// Gaps between the catalogs and the keys in use
+export interface TranslationReport {
+  /** Keys of the default catalog missing from each catalog */
+  missing: Record<Language, string[]>;
+  /** Keys of each catalog that the default catalog does not define */
+  unknown: Record<Language, string[]>;
+  /** Keys passed to t() or translate() that no catalog defines */
+  unresolved: string[];
+  /** Keys of the default catalog not requested since the page was loaded */
+  unused: string[];
+} 
\ No newline at end of file
@@ -2,6 +2,9 @@
  * Modern color palette utilities for data visualizations
  */
 
+import * as d3 from 'd3';
+import type { Theme } from '../types/theme';
+
 // Modern color palettes for different visualization types
 export const colorPalettes = {
   // Primary palette - vibrant and professional
@@ -85,14 +88,137 @@ export const colorPalettes = {
     '#E53E3E', // Pink
     '#718096', // Gray
   ],
+  
+  // Okabe-Ito - distinguishable with the common forms of color blindness
+  okabeIto: [
+    '#E69F00', // Orange
+    '#56B4E9', // Sky blue
+    '#009E73', // Bluish green
+    '#F0E442', // Yellow
+    '#0072B2', // Blue
+    '#D55E00', // Vermillion
+    '#CC79A7', // Reddish purple
+    '#000000', // Black
+  ],
+  
+  // Viridis - perceptually uniform, readable with color blindness and in grayscale
+  viridis: [
+    '#440154', // Dark purple
+    '#482878', // Purple
+    '#3E4A89', // Indigo
+    '#31688E', // Blue
+    '#26828E', // Teal blue
+    '#1F9E89', // Teal
+    '#35B779', // Green
+    '#6DCD59', // Light green
+    '#B4DE2C', // Lime
+    '#FDE725', // Yellow
+  ],
+};
+
+export type PaletteName = keyof typeof colorPalettes;
+
+// High contrast categories: dark, saturated colors readable on white
+const highContrastCategories = [
+  '#0033CC', // Blue
+  '#B0003A', // Crimson
+  '#006B2D', // Green
+  '#8A4B00', // Brown
+  '#5B2A86', // Purple
+  '#00529B', // Steel blue
+  '#A3001B', // Red
+  '#3D3D3D', // Charcoal
+  '#006B5E', // Teal
+  '#B34700', // Burnt orange
+];
+
+// Palettes replaced in the other themes, so that colors keep their contrast with the background.
+// Sequential palettes stay ordered so that the last colors stand out most from the background.
+const themePalettes: Record<Exclude<Theme, 'light'>, Partial<Record<PaletteName, string[]>>> = {
+  dark: {
+    professional: [
+      '#60A5FA', // Blue
+      '#F87171', // Red
+      '#34D399', // Green
+      '#FBBF24', // Amber
+      '#A78BFA', // Purple
+      '#22D3EE', // Cyan
+      '#F472B6', // Pink
+      '#9CA3AF', // Gray
+      '#A3E635', // Lime
+      '#FB923C', // Orange
+    ],
+    monochrome: [
+      '#EFF6FF', // Almost white blue
+      '#BFDBFE', // Very light blue
+      '#93C5FD', // Lighter blue
+      '#60A5FA', // Light blue
+      '#3B82F6', // Medium blue
+      '#2563EB', // Strong blue
+      '#1D4ED8', // Deep blue
+      '#1E3A8A', // Navy
+    ],
+    contrast: [
+      '#F7FAFC', // Light
+      '#FC8181', // Red
+      '#68D391', // Green
+      '#63B3ED', // Blue
+      '#F6E05E', // Yellow
+      '#B794F4', // Purple
+      '#F6AD55', // Orange
+      '#4FD1C5', // Teal
+      '#F687B3', // Pink
+      '#A0AEC0', // Gray
+    ],
+    okabeIto: [
+      '#E69F00', // Orange
+      '#56B4E9', // Sky blue
+      '#009E73', // Bluish green
+      '#F0E442', // Yellow
+      '#0072B2', // Blue
+      '#D55E00', // Vermillion
+      '#CC79A7', // Reddish purple
+      '#E0E0E0', // Light gray, instead of black
+    ],
+    // The darkest purples of viridis disappear on a dark background
+    viridis: [
+      '#355F8D', // Blue
+      '#2C728E', // Steel blue
+      '#25858E', // Teal blue
+      '#1F988B', // Teal
+      '#25AB82', // Green teal
+      '#3FBC73', // Green
+      '#67CC5C', // Light green
+      '#98D83E', // Yellow green
+      '#CDE11D', // Lime
+      '#FDE725', // Yellow
+    ],
+  },
+  'high-contrast': {
+    primary: highContrastCategories,
+    professional: highContrastCategories,
+    pastel: highContrastCategories,
+    earth: highContrastCategories,
+    monochrome: [
+      '#001A66', // Navy
+      '#002B80', // Deep blue
+      '#0033CC', // Strong blue
+      '#3358D6', // Medium blue
+      '#6680E0', // Light blue
+      '#99A8EB', // Lighter blue
+      '#CCD4F5', // Pale blue
+      '#E5EAFA', // Almost white blue
+    ],
+  },
 };
 
-// Function to get a color palette
+// Function to get a color palette, in its variant for a theme (default: light)
 export function getColorPalette(
-  paletteName: keyof typeof colorPalettes = 'primary',
-  count?: number
+  paletteName: PaletteName = 'primary',
+  count?: number,
+  theme: Theme = 'light'
 ): string[] {
-  const palette = colorPalettes[paletteName];
+  const palette = (theme === 'light' ? undefined : themePalettes[theme][paletteName]) ?? colorPalettes[paletteName];
   
   if (!count || count >= palette.length) {
     return [...palette];
@@ -110,6 +236,21 @@ export function getColorPalette(
   return selectedColors;
 }
 
+// Color at any position of a palette. Past the end, the palette is reused with
+// another lightness at each round (darker, lighter, then further each time),
+// so that values beyond its length do not repeat the colors already shown.
+export function getPaletteColor(palette: string[], position: number): string {
+  const color = palette[position % palette.length];
+  const round = Math.floor(position / palette.length);
+  if (round === 0) return color;
+
+  const shifted = d3.hsl(color);
+  if (isNaN(shifted.l)) return color;
+  const shift = Math.ceil(round / 2) * 0.15 * (round % 2 === 1 ? -1 : 1);
+  shifted.l = Math.min(0.9, Math.max(0.15, shifted.l + shift));
+  return shifted.formatHex();
+}
+
 // Function to generate gradient definitions for SVG
 export function generateSVGGradients(): string {
   return `
@@ -173,5 +314,29 @@ export function interpolateColor(color1: string, color2: string, factor: number)
   return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
 }
 
+// Relative luminance of a color, from 0 (black) to 1 (white), as defined by WCAG 2
+export function getRelativeLuminance(color: string): number {
+  const rgb = d3.rgb(color);
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(rgb.r) + 0.7152 * channel(rgb.g) + 0.0722 * channel(rgb.b);
+}
+
+// WCAG contrast ratio between two colors, from 1 (same luminance) to 21 (black on white)
+export function getContrastRatio(color1: string, color2: string): number {
+  const l1 = getRelativeLuminance(color1);
+  const l2 = getRelativeLuminance(color2);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+// Text color with the most contrast on a background: light or dark.
+// Colors that cannot be parsed (e.g. CSS variables) get the dark text.
+export function getReadableTextColor(background: string, light = '#FFFFFF', dark = '#1A202C'): string {
+  if (!d3.color(background)) return dark;
+  return getContrastRatio(background, light) >= getContrastRatio(background, dark) ? light : dark;
+}
+
 // Export the default modern color scale
 export const modernColorScale = getColorPalette('primary'); 
\ No newline at end of file
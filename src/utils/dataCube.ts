@@ -0,0 +1,282 @@
+import type { OmekaItem } from '../types/OmekaItem';
+import {
+    FACET_FILTER_KEYS,
+    getFacetValue,
+    type FacetFilterKey,
+    type FilterKey,
+    type FilterState
+} from './filterState';
+import { extractYear } from './dateParsing';
+
+/**
+ * Dimensions indexed by the data cube: the facet filters plus the publication year
+ */
+export type CubeDimension = FacetFilterKey | 'publicationYears';
+
+export const CUBE_DIMENSIONS: CubeDimension[] = [...FACET_FILTER_KEYS, 'publicationYears'];
+
+/**
+ * Selection of items answered by the cube
+ */
+export interface CubeQuery {
+    filters: FilterState;
+    /** Filter dimensions to skip, e.g. the dimension a facet counts */
+    ignore?: FilterKey[];
+    /** Values removed from the selection on top of the filters, e.g. { types: ["Notice d'autorité"] } */
+    exclude?: Partial<Record<CubeDimension, string[]>>;
+}
+
+export interface DataCube {
+    /** The items the cube was built from */
+    source: OmekaItem[];
+    /** Items matching the query, in their original order */
+    items(query: CubeQuery): OmekaItem[];
+    /** Number of items matching the query */
+    count(query: CubeQuery): number;
+    /** Number of matching items for each value of a dimension (values without items are left out) */
+    facetCounts(dimension: CubeDimension, query: CubeQuery): Map<string, number>;
+    /** Number of matching items for each pair of values of two dimensions */
+    crossCounts(rowDimension: CubeDimension, columnDimension: CubeDimension, query: CubeQuery): Map<string, Map<string, number>>;
+}
+
+// Memoized results kept per cube before the cache is cleared
+const MAX_CACHE_ENTRIES = 500;
+
+// Bitsets hold one bit per item position
+type Bitset = Uint32Array;
+
+function popcount(word: number): number {
+    word -= (word >>> 1) & 0x55555555;
+    word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+    return (((word + (word >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+function countBits(bits: Bitset): number {
+    let total = 0;
+    for (let i = 0; i < bits.length; i++) total += popcount(bits[i]);
+    return total;
+}
+
+function countIntersection(a: Bitset, b: Bitset): number {
+    let total = 0;
+    for (let i = 0; i < a.length; i++) total += popcount(a[i] & b[i]);
+    return total;
+}
+
+function intersectInto(target: Bitset, other: Bitset) {
+    for (let i = 0; i < target.length; i++) target[i] &= other[i];
+}
+
+function unionInto(target: Bitset, other: Bitset) {
+    for (let i = 0; i < target.length; i++) target[i] |= other[i];
+}
+
+function subtractInto(target: Bitset, other: Bitset) {
+    for (let i = 0; i < target.length; i++) target[i] &= ~other[i];
+}
+
+function getDimensionValue(item: OmekaItem, dimension: CubeDimension): string {
+    if (dimension === 'publicationYears') {
+        return extractYear(item.publication_date)?.toString() || 'Unknown';
+    }
+    return getFacetValue(item, dimension);
+}
+
+/**
+ * Stable key of the parts of a query that select items
+ */
+function getQuerySignature({ filters, ignore = [], exclude = {} }: CubeQuery): string {
+    const parts: string[] = [];
+    FACET_FILTER_KEYS.forEach(key => {
+        if (filters[key].length > 0 && !ignore.includes(key)) {
+            parts.push(`${key}=${[...filters[key]].sort().join('|')}`);
+        }
+    });
+    if (filters.publicationYears && !ignore.includes('publicationYears')) {
+        parts.push(`publicationYears=${filters.publicationYears.join('..')}`);
+    }
+    if (filters.createdDates && !ignore.includes('createdDates')) {
+        parts.push(`createdDates=${filters.createdDates.join('..')}`);
+    }
+    CUBE_DIMENSIONS.forEach(dimension => {
+        const values = exclude[dimension];
+        if (values && values.length > 0) {
+            parts.push(`!${dimension}=${[...values].sort().join('|')}`);
+        }
+    });
+    return parts.join('&');
+}
+
+/**
+ * Builds the inverted indexes of a dataset: one bitset of item positions per
+ * value of every dimension, plus the items sorted by created date for range filters.
+ * Query results are memoized by filter signature, so repeated facet and chart
+ * queries for the same filters cost a map lookup.
+ * @param source The items to index, usually the items of itemsStore
+ */
+export function createDataCube(source: OmekaItem[]): DataCube {
+    const wordCount = Math.ceil(source.length / 32);
+    const indexes = new Map<CubeDimension, Map<string, Bitset>>();
+    CUBE_DIMENSIONS.forEach(dimension => indexes.set(dimension, new Map()));
+
+    // Positions sorted by created day (YYYY-MM-DD), for created date ranges
+    const createdDays: string[] = [];
+    const createdPositions: number[] = [];
+
+    source.forEach((item, position) => {
+        const word = position >>> 5;
+        const bit = 1 << (position & 31);
+
+        CUBE_DIMENSIONS.forEach(dimension => {
+            const index = indexes.get(dimension)!;
+            const value = getDimensionValue(item, dimension);
+            let bits = index.get(value);
+            if (!bits) {
+                bits = new Uint32Array(wordCount);
+                index.set(value, bits);
+            }
+            bits[word] |= bit;
+        });
+
+        const created = item.created_date?.substring(0, 10);
+        if (created) {
+            createdPositions.push(position);
+            createdDays.push(created);
+        }
+    });
+
+    const order = createdPositions.map((_, i) => i).sort((a, b) => createdDays[a].localeCompare(createdDays[b]));
+    const sortedDays = order.map(i => createdDays[i]);
+    const sortedPositions = order.map(i => createdPositions[i]);
+
+    // First index in sortedDays whose day is not below `day` (or above it when `after`)
+    function searchDay(day: string, after: boolean): number {
+        let low = 0;
+        let high = sortedDays.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (after ? sortedDays[middle] <= day : sortedDays[middle] < day) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low;
+    }
+
+    const cache = new Map<string, unknown>();
+
+    function memoize<T>(key: string, compute: () => T): T {
+        if (cache.has(key)) return cache.get(key) as T;
+        if (cache.size >= MAX_CACHE_ENTRIES) cache.clear();
+        const value = compute();
+        cache.set(key, value);
+        return value;
+    }
+
+    // Bitset of the items matching a query
+    function select(query: CubeQuery): Bitset {
+        return memoize(`select:${getQuerySignature(query)}`, () => {
+            const { filters, ignore = [], exclude = {} } = query;
+            const bits = new Uint32Array(wordCount).fill(0xffffffff);
+            // Clear the padding bits after the last item
+            if (source.length % 32 !== 0) {
+                bits[wordCount - 1] = (1 << (source.length % 32)) - 1;
+            }
+
+            FACET_FILTER_KEYS.forEach(key => {
+                if (filters[key].length === 0 || ignore.includes(key)) return;
+                const selected = new Uint32Array(wordCount);
+                filters[key].forEach(value => {
+                    const valueBits = indexes.get(key)!.get(value);
+                    if (valueBits) unionInto(selected, valueBits);
+                });
+                intersectInto(bits, selected);
+            });
+
+            if (filters.publicationYears && !ignore.includes('publicationYears')) {
+                const [start, end] = filters.publicationYears;
+                const selected = new Uint32Array(wordCount);
+                indexes.get('publicationYears')!.forEach((valueBits, value) => {
+                    const year = parseInt(value);
+                    if (!isNaN(year) && year >= start && year <= end) unionInto(selected, valueBits);
+                });
+                intersectInto(bits, selected);
+            }
+
+            if (filters.createdDates && !ignore.includes('createdDates')) {
+                const selected = new Uint32Array(wordCount);
+                const last = searchDay(filters.createdDates[1], true);
+                for (let i = searchDay(filters.createdDates[0], false); i < last; i++) {
+                    const position = sortedPositions[i];
+                    selected[position >>> 5] |= 1 << (position & 31);
+                }
+                intersectInto(bits, selected);
+            }
+
+            CUBE_DIMENSIONS.forEach(dimension => {
+                exclude[dimension]?.forEach(value => {
+                    const valueBits = indexes.get(dimension)!.get(value);
+                    if (valueBits) subtractInto(bits, valueBits);
+                });
+            });
+
+            return bits;
+        });
+    }
+
+    return {
+        source,
+
+        items(query) {
+            return memoize(`items:${getQuerySignature(query)}`, () => {
+                const bits = select(query);
+                const result: OmekaItem[] = [];
+                for (let word = 0; word < bits.length; word++) {
+                    let value = bits[word];
+                    while (value !== 0) {
+                        const bit = 31 - Math.clz32(value & -value);
+                        result.push(source[(word << 5) + bit]);
+                        value &= value - 1;
+                    }
+                }
+                return result;
+            });
+        },
+
+        count(query) {
+            return memoize(`count:${getQuerySignature(query)}`, () => countBits(select(query)));
+        },
+
+        facetCounts(dimension, query) {
+            return memoize(`facet:${dimension}:${getQuerySignature(query)}`, () => {
+                const bits = select(query);
+                const counts = new Map<string, number>();
+                indexes.get(dimension)!.forEach((valueBits, value) => {
+                    const count = countIntersection(bits, valueBits);
+                    if (count > 0) counts.set(value, count);
+                });
+                return counts;
+            });
+        },
+
+        crossCounts(rowDimension, columnDimension, query) {
+            return memoize(`cross:${rowDimension}:${columnDimension}:${getQuerySignature(query)}`, () => {
+                const bits = select(query);
+                const rows = new Map<string, Map<string, number>>();
+                const rowBits = new Uint32Array(wordCount);
+                indexes.get(rowDimension)!.forEach((valueBits, rowValue) => {
+                    rowBits.set(bits);
+                    intersectInto(rowBits, valueBits);
+                    const columns = new Map<string, number>();
+                    indexes.get(columnDimension)!.forEach((columnBits, columnValue) => {
+                        const count = countIntersection(rowBits, columnBits);
+                        if (count > 0) columns.set(columnValue, count);
+                    });
+                    if (columns.size > 0) rows.set(rowValue, columns);
+                });
+                return rows;
+            });
+        }
+    };
+}
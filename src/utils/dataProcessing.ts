@@ -0,0 +1,378 @@
+import type { OmekaItem } from '../types/OmekaItem';
+import * as d3 from 'd3';
+import { parseDate } from './dateParsing';
+import { getDateTimeFormat } from './intlFormat';
+
+/**
+ * Interface for data processing options
+ */
+export interface DataProcessingOptions {
+    /** Whether to filter out items with missing values */
+    filterMissingValues?: boolean;
+    /** Fields to check for missing values when filterMissingValues is true */
+    requiredFields?: string[];
+    /** Custom filter function to apply to items */
+    filterFn?: (item: OmekaItem) => boolean;
+    /** Whether to calculate percentages for numeric values */
+    calculatePercentages?: boolean;
+    /** Whether to sort results by count/value */
+    sortByCount?: boolean;
+    /** Whether to sort in descending order */
+    sortDescending?: boolean;
+}
+
+/**
+ * Interface for processed data with counts and percentages
+ */
+export interface ProcessedDataItem {
+    /** The key/category being counted */
+    key: string;
+    /** The original key before translation */
+    originalKey?: string;
+    /** The count of items */
+    count: number;
+    /** The percentage of total items (if calculatePercentages is true) */
+    percentage?: number;
+    /** Additional metadata */
+    metadata?: Record<string, any>;
+}
+
+/**
+ * Type for hierarchical data structure
+ */
+export type HierarchicalData = {
+    name: string;
+    originalName: string;
+    value: number;
+    itemCount: number;
+    percentage?: number;
+    children?: HierarchicalData[];
+};
+
+/**
+ * Type for nested group maps
+ */
+type NestedGroupMap = d3.InternMap<string, NestedGroupMap | OmekaItem[]>;
+
+/**
+ * Size of the periods a time series is grouped by
+ */
+export type TimeGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const TIME_GRANULARITIES: TimeGranularity[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+/**
+ * Options for time-based processing
+ */
+export interface TimeSeriesOptions {
+    startDate?: Date;
+    endDate?: Date;
+    includeCumulative?: boolean;
+    initialTotal?: number;
+    /** Size of the periods (default: month) */
+    granularity?: TimeGranularity;
+    /** Locale of the period labels (default: the browser's) */
+    locale?: string;
+    /** Whether to add the items dated before startDate to initialTotal */
+    countEarlierItems?: boolean;
+}
+
+/**
+ * A period of a time series
+ */
+export interface TimeSeriesPeriod {
+    /** First day of the period */
+    date: Date;
+    /** Period key, e.g. "2024-03" */
+    month: string;
+    /** Display label of the period */
+    monthFormatted: string;
+    count: number;
+    /** Running total at the end of the period (0 unless includeCumulative is true) */
+    total: number;
+    percentage: number;
+}
+
+/**
+ * Calendar quarters, which d3 has no interval for
+ */
+export const timeQuarter = d3.timeInterval(
+    date => {
+        date.setMonth(date.getMonth() - date.getMonth() % 3, 1);
+        date.setHours(0, 0, 0, 0);
+    },
+    (date, step) => {
+        date.setMonth(date.getMonth() + step * 3);
+    },
+    (start, end) => (end.getFullYear() - start.getFullYear()) * 4 +
+        Math.floor(end.getMonth() / 3) - Math.floor(start.getMonth() / 3),
+    date => Math.floor(date.getMonth() / 3)
+);
+
+/**
+ * The d3 interval of a granularity, in local time. Weeks start on Monday (ISO 8601).
+ */
+export function getTimeInterval(granularity: TimeGranularity): d3.CountableTimeInterval {
+    switch (granularity) {
+        case 'day': return d3.timeDay;
+        case 'week': return d3.timeMonday;
+        case 'quarter': return timeQuarter;
+        case 'year': return d3.timeYear;
+        default: return d3.timeMonth;
+    }
+}
+
+// Keys of the periods, which sort in chronological order
+const periodKeyFormats: Record<TimeGranularity, (date: Date) => string> = {
+    day: d3.timeFormat('%Y-%m-%d'),
+    week: d3.timeFormat('%G-W%V'),
+    month: d3.timeFormat('%Y-%m'),
+    quarter: date => `${date.getFullYear()}-Q${Math.floor(date.getMonth() / 3) + 1}`,
+    year: d3.timeFormat('%Y')
+};
+
+/**
+ * Key of the period starting at a date, e.g. "2024-03-18", "2024-W12", "2024-03", "2024-Q1" or "2024"
+ */
+export function formatPeriodKey(date: Date, granularity: TimeGranularity): string {
+    return periodKeyFormats[granularity](date);
+}
+
+/**
+ * Short display label of the period starting at a date
+ * @param locale Locale of day and month names (default: the browser's)
+ */
+export function formatPeriodLabel(date: Date, granularity: TimeGranularity, locale?: string): string {
+    switch (granularity) {
+        case 'day':
+            return getDateTimeFormat(locale, { day: 'numeric', month: 'short', year: 'numeric' }).format(date);
+        case 'month':
+            return getDateTimeFormat(locale, { month: 'short', year: 'numeric' }).format(date);
+        case 'year':
+            return date.getFullYear().toString();
+        default:
+            // Weeks and quarters read the same in both languages: "2024-W12", "2024-Q1"
+            return formatPeriodKey(date, granularity);
+    }
+}
+
+/**
+ * Synchronous implementation of the data processing functions, shared by
+ * the useDataProcessing hook and the aggregation worker
+ */
+export function createDataProcessor(options: DataProcessingOptions = {}) {
+    const {
+        filterMissingValues = true,
+        requiredFields = [],
+        filterFn,
+        calculatePercentages = true,
+        sortByCount = true,
+        sortDescending = true
+    } = options;
+
+    /**
+     * Filter items based on the provided options
+     */
+    function filterItems(items: OmekaItem[]): OmekaItem[] {
+        if (!items || items.length === 0) return [];
+
+        let filtered = [...items];
+
+        // Apply custom filter function if provided
+        if (filterFn) {
+            filtered = filtered.filter(filterFn);
+        }
+
+        // Filter out items with missing required fields
+        if (filterMissingValues && requiredFields.length > 0) {
+            filtered = filtered.filter(item => 
+                requiredFields.every(field => 
+                    item[field as keyof OmekaItem] !== undefined && 
+                    item[field as keyof OmekaItem] !== null && 
+                    item[field as keyof OmekaItem] !== ''
+                )
+            );
+        }
+
+        return filtered;
+    }
+
+    /**
+     * Group items by a key and count them
+     */
+    function groupAndCount(
+        items: OmekaItem[],
+        keyFn: (item: OmekaItem) => string,
+        totalItems?: number
+    ): ProcessedDataItem[] {
+        const filteredItems = filterItems(items);
+        const actualTotal = totalItems || filteredItems.length;
+
+        // Group items by key
+        const groups = d3.rollup(
+            filteredItems,
+            v => v.length,
+            keyFn
+        );
+
+        // Convert to array and calculate percentages
+        const results: ProcessedDataItem[] = Array.from(groups, ([key, count]) => {
+            const result: ProcessedDataItem = {
+                key,
+                count,
+                originalKey: key
+            };
+
+            if (calculatePercentages) {
+                result.percentage = (count / actualTotal) * 100;
+            }
+
+            return result;
+        });
+
+        // Sort results if requested
+        if (sortByCount) {
+            results.sort((a, b) => 
+                sortDescending ? b.count - a.count : a.count - b.count
+            );
+        }
+
+        return results;
+    }
+
+    /**
+     * Group items by multiple keys (hierarchical grouping)
+     */
+    function groupHierarchically(
+        items: OmekaItem[],
+        keyFns: ((item: OmekaItem) => string)[],
+        totalItems?: number,
+        valueFn?: (item: OmekaItem) => number
+    ): { name: string; children: HierarchicalData[] } {
+        const filteredItems = filterItems(items);
+        const actualTotal = totalItems || filteredItems.length;
+
+        // Create nested groups
+        const groups = d3.group(filteredItems, ...keyFns) as unknown as NestedGroupMap;
+
+        // Convert to hierarchical structure
+        function convertToHierarchy(
+            map: NestedGroupMap,
+            level: number = 0
+        ): HierarchicalData[] {
+            return Array.from(map, ([key, value]) => {
+                const isLeaf = !(value instanceof d3.InternMap);
+                const result: HierarchicalData = {
+                    name: key,
+                    originalName: key,
+                    // Leaves are worth their number of items, or the sum of valueFn over them
+                    value: isLeaf ? (valueFn ? d3.sum(value, valueFn) : value.length) : 0,
+                    itemCount: isLeaf ? value.length : 0
+                };
+
+                if (calculatePercentages) {
+                    result.percentage = (result.itemCount / actualTotal) * 100;
+                }
+
+                if (value instanceof d3.InternMap) {
+                    result.children = convertToHierarchy(value, level + 1);
+                    // Calculate total value for parent nodes
+                    result.value = result.children.reduce((sum, child) => sum + child.value, 0);
+                    result.itemCount = result.children.reduce((sum, child) => sum + child.itemCount, 0);
+                }
+
+                return result;
+            });
+        }
+
+        return {
+            name: 'root',
+            children: convertToHierarchy(groups)
+        };
+    }
+
+    /**
+     * Process time-based data, aggregated by day, week, month, quarter or year
+     */
+    function processTimeData(
+        items: OmekaItem[],
+        dateField: keyof OmekaItem,
+        options: TimeSeriesOptions = {}
+    ): TimeSeriesPeriod[] {
+        try {
+            const filteredItems = filterItems(items);
+            const {
+                startDate,
+                endDate,
+                includeCumulative = true,
+                initialTotal = 0,
+                granularity = 'month',
+                locale,
+                countEarlierItems = false
+            } = options;
+            const interval = getTimeInterval(granularity);
+
+            // Parse dates and filter by date range; partial dates count from their first day
+            const itemDates = new Map<OmekaItem, Date>();
+            let earlierItems = 0;
+            const validItems = filteredItems.filter(item => {
+                const date = parseDate(item[dateField] as string)?.start;
+                if (!date) return false;
+
+                const isAfterStart = !startDate || date >= startDate;
+                const isBeforeEnd = !endDate || date <= endDate;
+                if (!isAfterStart) earlierItems++;
+                if (!isAfterStart || !isBeforeEnd) return false;
+
+                itemDates.set(item, date);
+                return true;
+            });
+
+            if (validItems.length === 0) return [];
+
+            // Count the items of each period, keyed by the start of the period
+            const periodCounts = d3.rollup(
+                validItems,
+                v => v.length,
+                d => interval.floor(itemDates.get(d)!).getTime()
+            );
+            const [firstPeriod, lastPeriod] = d3.extent(periodCounts.keys()) as [number, number];
+
+            // Every period from the first to the last one, so that gaps show up as zeros
+            const results: TimeSeriesPeriod[] = interval.range(new Date(firstPeriod), interval.offset(new Date(lastPeriod), 1))
+                .map(date => {
+                    const count = periodCounts.get(date.getTime()) || 0;
+                    return {
+                        date,
+                        month: formatPeriodKey(date, granularity),
+                        monthFormatted: formatPeriodLabel(date, granularity, locale),
+                        count,
+                        total: 0, // Will be calculated if includeCumulative is true
+                        percentage: (count / validItems.length) * 100
+                    };
+                });
+
+            // Calculate cumulative totals if requested
+            if (includeCumulative) {
+                // Start with the initial total
+                let runningTotal = initialTotal + (countEarlierItems ? earlierItems : 0);
+                results.forEach(item => {
+                    runningTotal += item.count;
+                    item.total = runningTotal;
+                });
+            }
+
+            return results;
+        } catch (error) {
+            console.error('[dataProcessing] Error processing time data:', error);
+            return [];
+        }
+    }
+
+    return {
+        filterItems,
+        groupAndCount,
+        groupHierarchically,
+        processTimeData
+    };
+} 
\ No newline at end of file
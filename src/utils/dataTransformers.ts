@@ -42,14 +42,17 @@ export function createWordDistributionHierarchy(items: OmekaItem[]): EChartsTree
     });
 
     // Convert map to TreemapNode structure
+    // Node ids are the names from the root joined with '/', so a zoom path can be restored with zoomToNode
     const root: EChartsTreemapNode = {
         name: 'Word Distribution', // Root node name
         children: Array.from(countryMap.entries()).map(([countryName, countryData]) => ({
+            id: countryName,
             name: countryName,
             value: countryData.words, // Add value for ECharts sizing
             wordCount: countryData.words,
             itemCount: countryData.items,
             children: Array.from(countryData.sets.entries()).map(([setName, setData]) => ({
+                id: `${countryName}/${setName}`,
                 name: setName,
                 value: setData.words, // Value used for treemap sizing
                 wordCount: setData.words,
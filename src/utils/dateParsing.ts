@@ -0,0 +1,184 @@
+/**
+ * How precisely a date string pins down the moment it refers to
+ */
+export type DatePrecision = 'day' | 'month' | 'year' | 'decade' | 'century' | 'range';
+
+/**
+ * A date string normalized to the interval of days it covers
+ */
+export interface ParsedDate {
+    /** First day of the interval, at local midnight */
+    start: Date;
+    /** Last day of the interval, at local midnight */
+    end: Date;
+    precision: DatePrecision;
+    /** Marked as uncertain: "ca. 1990", "vers 1990", "1990?", "[1990]" */
+    approximate: boolean;
+    /** Year the date is counted in: the first year of the interval */
+    year: number;
+}
+
+// Month names and abbreviations without accents, French then English
+const MONTH_NAMES: Record<string, number> = {
+    janvier: 1, janv: 1, jan: 1, january: 1,
+    fevrier: 2, fevr: 2, fev: 2, feb: 2, february: 2,
+    mars: 3, mar: 3, march: 3,
+    avril: 4, avr: 4, apr: 4, april: 4,
+    mai: 5, may: 5,
+    juin: 6, jun: 6, june: 6,
+    juillet: 7, juil: 7, jul: 7, july: 7,
+    aout: 8, aug: 8, august: 8,
+    septembre: 9, sept: 9, sep: 9, september: 9,
+    octobre: 10, oct: 10, october: 10,
+    novembre: 11, nov: 11, november: 11,
+    decembre: 12, dec: 12, december: 12
+};
+
+// Words announcing an approximate date
+const APPROXIMATE_PREFIX = /^(?:ca\.?|c\.|circa|vers|env\.?|environ|about|around)\s*/;
+
+// Separators between the two ends of a range: "1985/1987", "1985 - 1987", "mars 1985 a mai 1987"
+// (accents are stripped before matching)
+const RANGE_SEPARATOR = /\s*(?:\/|–|—|\s-\s|\s(?:a|au|to)\s)\s*|(?<=^\d{4})-(?=\d{4}$)/;
+
+// Parsed strings kept before the cache is cleared
+const MAX_CACHE_ENTRIES = 10000;
+const cache = new Map<string, ParsedDate | null>();
+
+function createDate(year: number, month: number, day: number): Date {
+    const date = new Date(year, month - 1, day);
+    // Years 0-99 are otherwise read as 1900-1999
+    date.setFullYear(year);
+    return date;
+}
+
+function isValidDay(year: number, month: number, day: number): boolean {
+    return month >= 1 && month <= 12 && day >= 1 && day <= createDate(year, month + 1, 0).getDate();
+}
+
+function dayInterval(year: number, month: number, day: number): Omit<ParsedDate, 'approximate' | 'year'> | null {
+    if (!isValidDay(year, month, day)) return null;
+    const date = createDate(year, month, day);
+    return { start: date, end: new Date(date), precision: 'day' };
+}
+
+function monthInterval(year: number, month: number): Omit<ParsedDate, 'approximate' | 'year'> | null {
+    if (month < 1 || month > 12) return null;
+    return { start: createDate(year, month, 1), end: createDate(year, month + 1, 0), precision: 'month' };
+}
+
+function yearsInterval(firstYear: number, lastYear: number, precision: DatePrecision): Omit<ParsedDate, 'approximate' | 'year'> {
+    return { start: createDate(firstYear, 1, 1), end: createDate(lastYear, 12, 31), precision };
+}
+
+function getMonth(name: string): number | null {
+    return MONTH_NAMES[name.replace(/\.$/, '')] ?? null;
+}
+
+/**
+ * Parses one date without range separators, already lowercased and stripped of accents
+ */
+function parseSingleDate(value: string): Omit<ParsedDate, 'approximate' | 'year'> | null {
+    let match: RegExpExecArray | null;
+
+    // ISO: YYYY, YYYY-MM, YYYY-MM-DD, optionally followed by a time that is ignored
+    if ((match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2})(?:[t ].*)?)?)?$/.exec(value))) {
+        const [, year, month, day] = match;
+        if (day) return dayInterval(+year, +month, +day);
+        if (month) return monthInterval(+year, +month);
+        return yearsInterval(+year, +year, 'year');
+    }
+
+    // Day first: DD/MM/YYYY, DD.MM.YYYY, DD-MM-YYYY
+    if ((match = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/.exec(value))) {
+        return dayInterval(+match[3], +match[2], +match[1]);
+    }
+
+    // MM/YYYY, MM.YYYY
+    if ((match = /^(\d{1,2})[./](\d{4})$/.exec(value))) {
+        return monthInterval(+match[2], +match[1]);
+    }
+
+    // Month names: "12 mars 1995", "1er janv. 1990", "mars 1995"
+    if ((match = /^(?:(\d{1,2})(?:er)?\s+)?([a-z]+\.?)\s+(\d{4})$/.exec(value))) {
+        const month = getMonth(match[2]);
+        if (month !== null) {
+            return match[1] ? dayInterval(+match[3], month, +match[1]) : monthInterval(+match[3], month);
+        }
+    }
+
+    // Unknown last digits: "199?", "199x", "199u" (decade), "19??" (century)
+    if ((match = /^(\d{3})[?xu]$/.exec(value))) {
+        return yearsInterval(+match[1] * 10, +match[1] * 10 + 9, 'decade');
+    }
+    if ((match = /^(\d{2})[?xu]{2}$/.exec(value))) {
+        return yearsInterval(+match[1] * 100, +match[1] * 100 + 99, 'century');
+    }
+
+    // Decades: "1990s", "années 1990"
+    if ((match = /^(\d{3}0)'?s$/.exec(value) || /^annees\s+(\d{3}0)$/.exec(value))) {
+        return yearsInterval(+match[1], +match[1] + 9, 'decade');
+    }
+
+    return null;
+}
+
+function parseUncached(value: string): ParsedDate | null {
+    let text = value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    if (!text) return null;
+
+    let approximate = false;
+    // "[1990]" is a date supplied by the cataloguer
+    if (/^\[.*\]$/.test(text)) {
+        text = text.slice(1, -1).trim();
+        approximate = true;
+    }
+    if (APPROXIMATE_PREFIX.test(text)) {
+        text = text.replace(APPROXIMATE_PREFIX, '');
+        approximate = true;
+    }
+    // "1990?" but not "199?"
+    if (/\d{4}\s*\?$/.test(text)) {
+        text = text.replace(/\s*\?$/, '');
+        approximate = true;
+    }
+
+    let interval = parseSingleDate(text);
+    if (!interval) {
+        const parts = text.split(RANGE_SEPARATOR);
+        if (parts.length !== 2) return null;
+        const first = parseSingleDate(parts[0]);
+        const last = parseSingleDate(parts[1]);
+        if (!first || !last || last.end < first.start) return null;
+        interval = { start: first.start, end: last.end, precision: 'range' };
+    }
+
+    return { ...interval, approximate, year: interval.start.getFullYear() };
+}
+
+/**
+ * Parses a date string into the interval of days it covers.
+ * Understands ISO dates (YYYY, YYYY-MM, YYYY-MM-DD, with or without a time), day-first dates
+ * (DD/MM/YYYY), French and English month names, ranges ("1985/1987"), decades and centuries
+ * with unknown digits ("199?", "19??") and approximate dates ("ca. 1990", "[1990]").
+ * Dates are read as calendar days in local time, whatever the time or offset they carry.
+ * Results are cached and shared: do not mutate them.
+ * @param value The date string
+ * @returns The normalized interval, or null when the string is empty or not understood
+ */
+export function parseDate(value?: string | null): ParsedDate | null {
+    if (!value) return null;
+    if (cache.has(value)) return cache.get(value)!;
+
+    if (cache.size >= MAX_CACHE_ENTRIES) cache.clear();
+    const parsed = parseUncached(value);
+    cache.set(value, parsed);
+    return parsed;
+}
+
+/**
+ * Extracts the year a date string is counted in: the first year of the interval it covers
+ */
+export function extractYear(value?: string | null): number | null {
+    return parseDate(value)?.year ?? null;
+}
@@ -0,0 +1,69 @@
+import { t, findTranslation } from '../stores/translationStore';
+import type { Language } from '../types/translations';
+import { FACET_FILTER_KEYS, type FacetFilterKey, type FilterKey, type FilterState } from '../stores/filterStore';
+import { getTranslatedCategoryName } from '../types/SubcollectionCategories';
+
+/**
+ * A human readable active filter, one per selected value or range
+ */
+export interface FilterLabel {
+  key: FilterKey;
+  /** The selected value for facet dimensions, undefined for ranges */
+  value?: string;
+  label: string;
+}
+
+// Translation key prefix used for the values of each facet dimension
+const valuePrefixes: Partial<Record<FacetFilterKey, string>> = {
+  countries: 'country',
+  types: 'type',
+  languages: 'lang'
+};
+
+/**
+ * Translate a facet value, falling back to the raw value
+ */
+export function translateFilterValue(key: FacetFilterKey, value: string, lang: Language): string {
+  if (key === 'categories') {
+    return getTranslatedCategoryName(value, lang);
+  }
+  const prefix = valuePrefixes[key];
+  if (!prefix) return value;
+  const translationKey = `${prefix}.${value}`;
+  return findTranslation(translationKey) ?? value;
+}
+
+/**
+ * Describe the active filters, e.g. "Country: Benin", in the current language
+ */
+export function getFilterLabels(filters: FilterState, lang: Language): FilterLabel[] {
+  const result: FilterLabel[] = [];
+
+  FACET_FILTER_KEYS.forEach(key => {
+    filters[key].forEach(value => {
+      result.push({
+        key,
+        value,
+        label: `${t(`filter.${key}`)}: ${translateFilterValue(key, value, lang)}`
+      });
+    });
+  });
+
+  if (filters.publicationYears) {
+    const [start, end] = filters.publicationYears;
+    result.push({
+      key: 'publicationYears',
+      label: `${t('filter.publicationYears')}: ${t('filter.range', { '0': start, '1': end })}`
+    });
+  }
+
+  if (filters.createdDates) {
+    const [start, end] = filters.createdDates;
+    result.push({
+      key: 'createdDates',
+      label: `${t('filter.createdDates')}: ${t('filter.range', { '0': start, '1': end })}`
+    });
+  }
+
+  return result;
+}
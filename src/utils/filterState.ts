@@ -0,0 +1,50 @@
+import { getCategoryForSubcollection } from '../types/SubcollectionCategories';
+import type { OmekaItem } from '../types/OmekaItem';
+
+// Filter dimensions and item values, kept out of filterStore: filterStore builds the data cube,
+// which needs them too, so they cannot live in a module importing the cube
+
+/**
+ * Filter dimensions holding a list of selected values (empty list = no filter)
+ */
+export type FacetFilterKey = 'countries' | 'types' | 'languages' | 'itemSets' | 'categories';
+
+/**
+ * Filter dimensions holding a [min, max] range (null = no filter)
+ */
+export type RangeFilterKey = 'publicationYears' | 'createdDates';
+
+export type FilterKey = FacetFilterKey | RangeFilterKey;
+
+export interface FilterState {
+    countries: string[];
+    types: string[];
+    languages: string[];
+    itemSets: string[];
+    /** Subcollection category ids (see SubcollectionCategories.ts) */
+    categories: string[];
+    /** Inclusive publication year range */
+    publicationYears: [number, number] | null;
+    /** Inclusive created date range as YYYY-MM-DD strings */
+    createdDates: [string, string] | null;
+}
+
+export const FACET_FILTER_KEYS: FacetFilterKey[] = ['countries', 'types', 'languages', 'itemSets', 'categories'];
+
+/**
+ * Read the value an item holds for a facet dimension
+ */
+export function getFacetValue(item: OmekaItem, key: FacetFilterKey): string {
+    switch (key) {
+        case 'countries':
+            return item.country || 'Unknown';
+        case 'types':
+            return item.type || 'Unknown';
+        case 'languages':
+            return item.language || 'Unknown';
+        case 'itemSets':
+            return item.item_set_title || 'Unknown';
+        case 'categories':
+            return getCategoryForSubcollection(item.item_set_title || '').id;
+    }
+}
@@ -0,0 +1,159 @@
+import { getTimeInterval, type TimeGranularity } from './dataProcessing';
+
+/**
+ * Trend fitted to the collection growth:
+ * - `linear`: constant additions per period, the slope of a least-squares line through the cumulative totals
+ * - `seasonal`: additions of the last season averaged, scaled by the seasonal index of each period
+ */
+export type ForecastMethod = 'linear' | 'seasonal';
+
+export const FORECAST_METHODS: ForecastMethod[] = ['linear', 'seasonal'];
+
+/**
+ * Number of periods that can be projected
+ */
+export const FORECAST_HORIZONS = [3, 6, 12, 24];
+
+/**
+ * A projected period of the collection growth
+ */
+export interface ForecastPoint {
+    date: Date;     // First day of the period
+    count: number;  // Projected additions in the period
+    total: number;  // Projected cumulative total
+    lower: number;  // Lower bound of the 95% confidence band of the total
+    upper: number;  // Upper bound of the 95% confidence band of the total
+}
+
+/**
+ * A period of the observed growth, as produced by processTimeData
+ */
+export interface GrowthPeriod {
+    date: Date;
+    count: number;
+    total: number;
+}
+
+export interface ForecastOptions {
+    method: ForecastMethod;
+    /** Number of periods to project */
+    horizon: number;
+    /** Period size of the observed data */
+    granularity?: TimeGranularity;
+}
+
+// Periods in a season, per granularity (years have no seasonality)
+const SEASON_LENGTHS: Record<TimeGranularity, number> = {
+    day: 7,
+    week: 52,
+    month: 12,
+    quarter: 4,
+    year: 1
+};
+
+// Two-sided 95% normal quantile
+const Z_95 = 1.96;
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[], center: number, degreesOfFreedom = values.length - 1): number {
+    if (degreesOfFreedom <= 0) return 0;
+    return Math.sqrt(values.reduce((sum, value) => sum + (value - center) ** 2, 0) / degreesOfFreedom);
+}
+
+/**
+ * Slope of the least-squares line through the cumulative totals, and the spread of the additions around it
+ */
+function fitLinear(data: GrowthPeriod[]): { additions: (step: number) => number; spread: number } {
+    const xMean = (data.length - 1) / 2;
+    const yMean = mean(data.map(d => d.total));
+    let covariance = 0;
+    let variance = 0;
+    data.forEach((d, i) => {
+        covariance += (i - xMean) * (d.total - yMean);
+        variance += (i - xMean) ** 2;
+    });
+    const slope = Math.max(0, variance > 0 ? covariance / variance : 0);
+
+    return {
+        additions: () => slope,
+        spread: standardDeviation(data.map(d => d.count), slope)
+    };
+}
+
+/**
+ * Moving average of the last season, scaled by the average share of each position in the season
+ */
+function fitSeasonal(data: GrowthPeriod[], seasonLength: number): { additions: (step: number) => number; spread: number } {
+    const counts = data.map(d => d.count);
+    const level = mean(counts.slice(-seasonLength));
+
+    // Seasonal indices need two full seasons, else every period weighs the same
+    const indices = new Array(seasonLength).fill(1);
+    const seasons = Math.floor(counts.length / seasonLength);
+    if (seasonLength > 1 && seasons >= 2) {
+        // Whole seasons only, ending with the last period, so that positions stay aligned
+        const offset = counts.length - seasons * seasonLength;
+        const overall = mean(counts.slice(offset));
+        if (overall > 0) {
+            for (let position = 0; position < seasonLength; position++) {
+                const values: number[] = [];
+                for (let i = offset + position; i < counts.length; i += seasonLength) values.push(counts[i]);
+                indices[position] = mean(values) / overall;
+            }
+        }
+    }
+    // Position in the season of the period `i` (negative i counts back from the first period)
+    const positionOf = (i: number) => (((i - counts.length) % seasonLength) + seasonLength) % seasonLength;
+
+    // Spread of the one-step-ahead errors over the history
+    const errors: number[] = [];
+    for (let i = seasonLength; i < counts.length; i++) {
+        errors.push(counts[i] - mean(counts.slice(i - seasonLength, i)) * indices[positionOf(i)]);
+    }
+
+    return {
+        additions: step => level * indices[positionOf(counts.length - 1 + step)],
+        spread: errors.length > 0
+            ? standardDeviation(errors, 0, errors.length)
+            : standardDeviation(counts, mean(counts))
+    };
+}
+
+/**
+ * Projects the cumulative total of the collection over the next periods.
+ * The projection starts from the last observed total; its confidence band widens
+ * with the square root of the number of periods ahead, as for a random walk.
+ * @param data Observed periods, contiguous and in order
+ * @param options Method, number of periods and period size
+ * @returns The projected periods, or an empty list when there are fewer than two observed periods
+ */
+export function forecastGrowth(data: GrowthPeriod[], options: ForecastOptions): ForecastPoint[] {
+    const { method, horizon, granularity = 'month' } = options;
+    if (data.length < 2 || horizon <= 0) return [];
+
+    const interval = getTimeInterval(granularity);
+    const model = method === 'seasonal'
+        ? fitSeasonal(data, SEASON_LENGTHS[granularity])
+        : fitLinear(data);
+
+    const last = data[data.length - 1];
+    const points: ForecastPoint[] = [];
+    let total = last.total;
+    for (let step = 1; step <= horizon; step++) {
+        const count = Math.max(0, model.additions(step));
+        total += count;
+        const margin = Z_95 * model.spread * Math.sqrt(step);
+        points.push({
+            date: interval.offset(last.date, step),
+            count,
+            total,
+            // The collection does not shrink
+            lower: Math.max(last.total, total - margin),
+            upper: total + margin
+        });
+    }
+    return points;
+}
@@ -0,0 +1,147 @@
+/**
+ * Cached Intl formatters and ICU-style messages for a given locale.
+ * Independent of the language store so that it can also run in the aggregation worker;
+ * components use the services/formatting module, which passes the current locale.
+ */
+
+export type MessageParams = Record<string, string | number>;
+
+// Intl objects are costly to create, so each locale and set of options is built once
+// (an undefined locale is the browser's)
+const formatters = new Map<string, unknown>();
+
+function getCached<T>(kind: string, locale: string | undefined, options: object | undefined, create: () => T): T {
+    const key = `${kind}|${locale ?? ''}|${options ? JSON.stringify(options) : ''}`;
+    let formatter = formatters.get(key) as T | undefined;
+    if (!formatter) {
+        formatter = create();
+        formatters.set(key, formatter);
+    }
+    return formatter;
+}
+
+export function getNumberFormat(locale: string | undefined, options?: Intl.NumberFormatOptions): Intl.NumberFormat {
+    return getCached('number', locale, options, () => new Intl.NumberFormat(locale, options));
+}
+
+export function getDateTimeFormat(locale: string | undefined, options?: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+    return getCached('date', locale, options, () => new Intl.DateTimeFormat(locale, options));
+}
+
+export function getPluralRules(locale: string | undefined, options?: Intl.PluralRulesOptions): Intl.PluralRules {
+    return getCached('plural', locale, options, () => new Intl.PluralRules(locale, options));
+}
+
+export function getRelativeTimeFormat(locale: string | undefined, options?: Intl.RelativeTimeFormatOptions): Intl.RelativeTimeFormat {
+    return getCached('relative', locale, options, () => new Intl.RelativeTimeFormat(locale, options));
+}
+
+export function getListFormat(locale: string | undefined, options?: Intl.ListFormatOptions): Intl.ListFormat {
+    return getCached('list', locale, options, () => new Intl.ListFormat(locale, options));
+}
+
+// Styles of {0, number, style} arguments
+const NUMBER_STYLES: Record<string, Intl.NumberFormatOptions> = {
+    integer: { maximumFractionDigits: 0 },
+    percent: { style: 'percent' },
+    compact: { notation: 'compact', maximumFractionDigits: 1 }
+};
+
+/**
+ * Index of the brace closing the one at `start`, or -1 when it is not closed
+ */
+function findClosingBrace(pattern: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < pattern.length; i++) {
+        if (pattern[i] === '{') depth++;
+        else if (pattern[i] === '}' && --depth === 0) return i;
+    }
+    return -1;
+}
+
+/**
+ * Splits the options of a plural or select argument: `=0 {none} one {# item} other {# items}`
+ */
+function parseOptions(text: string): Map<string, string> {
+    const options = new Map<string, string>();
+    let i = 0;
+    while (i < text.length) {
+        const open = text.indexOf('{', i);
+        if (open === -1) break;
+        const close = findClosingBrace(text, open);
+        if (close === -1) break;
+        const selector = text.slice(i, open).trim();
+        if (selector) options.set(selector, text.slice(open + 1, close));
+        i = close + 1;
+    }
+    return options;
+}
+
+/**
+ * Formats the argument `{name, type, style}` found between braces
+ */
+function formatArgument(argument: string, params: MessageParams, locale: string, pound: string | undefined): string | null {
+    const [name, type, ...rest] = argument.split(',');
+    const key = name.trim();
+    if (!(key in params)) return null;
+    const value = params[key];
+    const style = rest.join(',');
+
+    switch (type?.trim()) {
+        case undefined:
+            return String(value);
+        case 'number':
+            return getNumberFormat(locale, NUMBER_STYLES[style.trim()]).format(Number(value));
+        case 'plural': {
+            const count = Number(value);
+            const options = parseOptions(style);
+            const message = options.get(`=${count}`)
+                ?? options.get(getPluralRules(locale).select(count))
+                ?? options.get('other');
+            return message === undefined ? null : formatPattern(message, params, locale, getNumberFormat(locale).format(count));
+        }
+        case 'select': {
+            const options = parseOptions(style);
+            const message = options.get(String(value)) ?? options.get('other');
+            return message === undefined ? null : formatPattern(message, params, locale, pound);
+        }
+        default:
+            return null;
+    }
+}
+
+function formatPattern(pattern: string, params: MessageParams, locale: string, pound?: string): string {
+    let result = '';
+    let i = 0;
+    while (i < pattern.length) {
+        const char = pattern[i];
+        if (char === '{') {
+            const close = findClosingBrace(pattern, i);
+            if (close === -1) return result + pattern.slice(i);
+            // Arguments that cannot be formatted are left as written
+            result += formatArgument(pattern.slice(i + 1, close), params, locale, pound) ?? pattern.slice(i, close + 1);
+            i = close + 1;
+        } else {
+            result += char === '#' && pound !== undefined ? pound : char;
+            i++;
+        }
+    }
+    return result;
+}
+
+/**
+ * Formats a message with ICU-style arguments:
+ * - `{0}` inserts a parameter as is
+ * - `{0, number}` formats it as a number; `{0, number, integer|percent|compact}` picks a style
+ * - `{0, plural, =0 {no items} one {# item} other {# items}}` picks a form with the plural rules
+ *   of the locale; `#` is the formatted number
+ * - `{0, select, country {…} other {…}}` picks a form by value
+ * Apostrophes have no special meaning. Unknown parameters are left as written.
+ * @param pattern The message
+ * @param params Values of the arguments, by name or position
+ * @param locale BCP 47 locale of numbers and plural rules
+ */
+export function formatMessage(pattern: string, params: MessageParams | undefined, locale: string): string {
+    if (!params || !pattern.includes('{')) return pattern;
+    return formatPattern(pattern, params, locale);
+}
@@ -0,0 +1,15 @@
+import type { OmekaItem } from '../types/OmekaItem';
+
+/**
+ * Public Omeka S site the items are exported from
+ */
+export const ITEM_SITE_URL = 'https://islam.zmo.de/s/westafrica';
+
+/**
+ * Returns the URL of the source record of an item on the Omeka S site
+ * @param item The item to link to
+ * @returns The URL of the item page
+ */
+export function getItemUrl(item: OmekaItem): string {
+  return `${ITEM_SITE_URL}/item/${item.id}`;
+}
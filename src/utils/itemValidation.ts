@@ -0,0 +1,187 @@
+import type { OmekaItem } from '../types/OmekaItem';
+import { subcollectionMapping } from '../types/SubcollectionCategories';
+import { hasTranslation } from '../stores/translationStore';
+import { parseDate } from './dateParsing';
+
+/**
+ * Kinds of problems found when checking items.json against the OmekaItem contract
+ */
+export type DataIssueType =
+  | 'invalid_record'
+  | 'missing_id'
+  | 'duplicate_id'
+  | 'missing_title'
+  | 'invalid_publication_date'
+  | 'invalid_created_date'
+  | 'invalid_word_count'
+  | 'unknown_country'
+  | 'unmapped_item_set';
+
+/**
+ * Issues that exclude the record from the dataset; the others only flag it
+ */
+export const EXCLUDING_ISSUES: DataIssueType[] = ['invalid_record', 'missing_id', 'duplicate_id'];
+
+export const DATA_ISSUE_TYPES: DataIssueType[] = [
+  'invalid_record',
+  'missing_id',
+  'duplicate_id',
+  'missing_title',
+  'invalid_publication_date',
+  'invalid_created_date',
+  'invalid_word_count',
+  'unknown_country',
+  'unmapped_item_set'
+];
+
+/**
+ * A record showing an issue, kept as an example in the report
+ */
+export interface DataIssueExample {
+  /** Position of the record in items.json */
+  index: number;
+  id?: unknown;
+  title?: string;
+  /** The offending value */
+  value: string;
+}
+
+export interface DataIssueSummary {
+  count: number;
+  /** Distinct offending values with their number of records */
+  values: Record<string, number>;
+  examples: DataIssueExample[];
+}
+
+export interface DataQualityReport {
+  totalRecords: number;
+  usableRecords: number;
+  excludedRecords: number;
+  issues: Record<DataIssueType, DataIssueSummary>;
+  checkedAt: string;
+}
+
+export interface ValidationResult {
+  items: OmekaItem[];
+  report: DataQualityReport;
+}
+
+// Number of example records kept per issue type
+const MAX_EXAMPLES = 5;
+
+// Created dates are YYYY-MM-DD, optionally followed by a time
+const CREATED_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ].*)?$/;
+
+// Authority records use their own item sets (see IndexDistribution)
+const AUTHORITY_RECORD_TYPE = "Notice d'autorité";
+
+function createEmptyReport(totalRecords: number): DataQualityReport {
+  const issues = {} as Record<DataIssueType, DataIssueSummary>;
+  DATA_ISSUE_TYPES.forEach(type => {
+    issues[type] = { count: 0, values: {}, examples: [] };
+  });
+
+  return {
+    totalRecords,
+    usableRecords: 0,
+    excludedRecords: 0,
+    issues,
+    checkedAt: new Date().toISOString()
+  };
+}
+
+function isValidCreatedDate(value: string): boolean {
+  return CREATED_DATE_PATTERN.test(value) && parseDate(value) !== null;
+}
+
+/**
+ * Checks every record of items.json against the OmekaItem contract.
+ * Records that are not objects, have no numeric id or repeat an id are excluded;
+ * other problems are reported but the record is kept.
+ * @param data The parsed content of items.json
+ * @returns The usable items and the data quality report
+ * @throws Error if the data is not an array
+ */
+export function validateItems(data: unknown): ValidationResult {
+  if (!Array.isArray(data)) {
+    throw new Error('items.json does not contain a list of items');
+  }
+
+  const report = createEmptyReport(data.length);
+  const items: OmekaItem[] = [];
+  const seenIds = new Set<number>();
+
+  data.forEach((record, index) => {
+    const recordIssues: DataIssueType[] = [];
+    const addIssue = (type: DataIssueType, value: unknown) => {
+      const summary = report.issues[type];
+      const valueText = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+      summary.count++;
+      summary.values[valueText] = (summary.values[valueText] || 0) + 1;
+      if (summary.examples.length < MAX_EXAMPLES) {
+        const isObject = typeof record === 'object' && record !== null;
+        summary.examples.push({
+          index,
+          id: isObject ? record.id : undefined,
+          title: isObject && typeof record.title === 'string' ? record.title : undefined,
+          value: valueText
+        });
+      }
+      recordIssues.push(type);
+    };
+
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      addIssue('invalid_record', record);
+      report.excludedRecords++;
+      return;
+    }
+
+    const item = record as OmekaItem;
+
+    if (typeof item.id !== 'number' || !Number.isInteger(item.id)) {
+      addIssue('missing_id', item.id);
+    } else if (seenIds.has(item.id)) {
+      addIssue('duplicate_id', item.id);
+    } else {
+      seenIds.add(item.id);
+    }
+
+    if (typeof item.title !== 'string' || item.title.trim() === '') {
+      addIssue('missing_title', item.title);
+    }
+
+    if (item.publication_date !== undefined && item.publication_date !== null && item.publication_date !== '' &&
+        (typeof item.publication_date !== 'string' || parseDate(item.publication_date) === null)) {
+      addIssue('invalid_publication_date', item.publication_date);
+    }
+
+    if (item.created_date !== undefined && item.created_date !== null && item.created_date !== '' &&
+        (typeof item.created_date !== 'string' || !isValidCreatedDate(item.created_date))) {
+      addIssue('invalid_created_date', item.created_date);
+    }
+
+    if (item.word_count !== undefined && item.word_count !== null &&
+        (typeof item.word_count !== 'number' || !Number.isFinite(item.word_count) || item.word_count < 0)) {
+      addIssue('invalid_word_count', item.word_count);
+    }
+
+    if (item.country && !hasTranslation(`country.${item.country}`)) {
+      addIssue('unknown_country', item.country);
+    }
+
+    if (item.item_set_title && item.type !== AUTHORITY_RECORD_TYPE && !(item.item_set_title in subcollectionMapping)) {
+      addIssue('unmapped_item_set', item.item_set_title);
+    }
+
+    if (recordIssues.some(type => EXCLUDING_ISSUES.includes(type))) {
+      report.excludedRecords++;
+      return;
+    }
+
+    items.push(item);
+  });
+
+  report.usableRecords = items.length;
+
+  return { items, report };
+}
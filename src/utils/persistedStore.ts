@@ -0,0 +1,47 @@
+import { writable, type Readable } from 'svelte/store';
+
+export interface PersistedStoreOptions<T extends string> {
+    /** localStorage key of the choice, absent while the default value is used */
+    key: string;
+    /** Values accepted when reading back a stored choice */
+    values: readonly T[];
+    defaultValue: T;
+}
+
+export interface PersistedStore<T extends string> extends Readable<T> {
+    set(value: T): void;
+}
+
+/**
+ * Creates a store for a choice kept across visits in localStorage (e.g. the theme or the palette).
+ * Stored values that are no longer allowed fall back to the default value.
+ */
+export function createPersistedStore<T extends string>({ key, values, defaultValue }: PersistedStoreOptions<T>): PersistedStore<T> {
+    function readStoredValue(): T {
+        try {
+            const stored = localStorage.getItem(key);
+            return values.includes(stored as T) ? stored as T : defaultValue;
+        } catch {
+            // Storage is unavailable in some private windows and sandboxed iframes
+            return defaultValue;
+        }
+    }
+
+    const { subscribe, set } = writable<T>(typeof window === 'undefined' ? defaultValue : readStoredValue());
+
+    return {
+        subscribe,
+        set: (value: T) => {
+            set(value);
+            try {
+                if (value === defaultValue) {
+                    localStorage.removeItem(key);
+                } else {
+                    localStorage.setItem(key, value);
+                }
+            } catch {
+                // The choice then only lasts until the page is closed
+            }
+        }
+    };
+}
@@ -1,53 +1,268 @@
-import type { Language } from '../stores/translationStore';
+import type { Language } from '../types/translations';
+import { isLanguage } from '../stores/translationStore';
+import { createEmptyFilters, type FilterState } from '../stores/filterStore';
+import { createDefaultViewState, type ViewState } from '../stores/viewStateStore';
+import { TIME_GRANULARITIES, type TimeGranularity } from './dataProcessing';
+import { FORECAST_METHODS, FORECAST_HORIZONS, type ForecastMethod } from './forecast';
+
+/**
+ * Version of the view state encoding, written to the `v` parameter.
+ * Bump it when the encoding changes and keep decoding older versions.
+ * Links without `v` predate the encoding and only carry `lang` and `tab`.
+ */
+export const URL_STATE_VERSION = 1;
+
+/**
+ * Filters and view state carried by a shared link
+ */
+export interface UrlState {
+  filters: FilterState;
+  view: ViewState;
+}
+
+// Short parameter names used by version 1 of the encoding
+const STATE_PARAMS = {
+  countries: 'c',
+  types: 't',
+  languages: 'l',
+  itemSets: 's',
+  categories: 'k',
+  publicationYears: 'py',
+  createdDates: 'cd',
+  zoomPath: 'z',
+  chartMode: 'm',
+  baselineMonth: 'gb',
+  timeGranularity: 'tg',
+  timelineMode: 'tm',
+  publicationBin: 'pb',
+  publicationStack: 'ps',
+  forecastMethod: 'fm',
+  forecastHorizon: 'fh'
+} as const;
+
+const LIST_SEPARATOR = '|';
+const RANGE_SEPARATOR = '~';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Set by replaceNextUrlUpdate, consumed by the next updateUrl call
+let replaceNextUpdate = false;
+
+/**
+ * Writes the filters and view state into URL parameters, omitting defaults
+ * @param params The URL parameters to update
+ * @param state The filters and view state to encode
+ */
+function encodeUrlState(params: URLSearchParams, state: UrlState): void {
+  // Remove any previous state so cleared filters disappear from the URL
+  params.delete('v');
+  Object.values(STATE_PARAMS).forEach(key => params.delete(key));
+
+  const { filters, view } = state;
+  const setList = (key: string, values: string[]) => {
+    if (values.length > 0) params.set(key, values.join(LIST_SEPARATOR));
+  };
+
+  setList(STATE_PARAMS.countries, filters.countries);
+  setList(STATE_PARAMS.types, filters.types);
+  setList(STATE_PARAMS.languages, filters.languages);
+  setList(STATE_PARAMS.itemSets, filters.itemSets);
+  setList(STATE_PARAMS.categories, filters.categories);
+  if (filters.publicationYears) {
+    params.set(STATE_PARAMS.publicationYears, filters.publicationYears.join(RANGE_SEPARATOR));
+  }
+  if (filters.createdDates) {
+    params.set(STATE_PARAMS.createdDates, filters.createdDates.join(RANGE_SEPARATOR));
+  }
+  setList(STATE_PARAMS.zoomPath, view.zoomPath);
+  if (view.chartMode !== createDefaultViewState().chartMode) {
+    params.set(STATE_PARAMS.chartMode, view.chartMode);
+  }
+  if (view.baselineMonth !== createDefaultViewState().baselineMonth) {
+    params.set(STATE_PARAMS.baselineMonth, view.baselineMonth);
+  }
+  if (view.timeGranularity !== createDefaultViewState().timeGranularity) {
+    params.set(STATE_PARAMS.timeGranularity, view.timeGranularity);
+  }
+  if (view.timelineMode !== createDefaultViewState().timelineMode) {
+    params.set(STATE_PARAMS.timelineMode, view.timelineMode);
+  }
+  if (view.publicationBin !== createDefaultViewState().publicationBin) {
+    params.set(STATE_PARAMS.publicationBin, view.publicationBin);
+  }
+  if (view.publicationStack !== createDefaultViewState().publicationStack) {
+    params.set(STATE_PARAMS.publicationStack, view.publicationStack);
+  }
+  if (view.forecastMethod !== createDefaultViewState().forecastMethod) {
+    params.set(STATE_PARAMS.forecastMethod, view.forecastMethod);
+  }
+  if (view.forecastHorizon !== createDefaultViewState().forecastHorizon) {
+    params.set(STATE_PARAMS.forecastHorizon, view.forecastHorizon.toString());
+  }
+
+  // Only version links that actually carry state
+  if (Object.values(STATE_PARAMS).some(key => params.has(key))) {
+    params.set('v', URL_STATE_VERSION.toString());
+  }
+}
+
+/**
+ * Reads the filters and view state from URL parameters.
+ * Invalid values are ignored rather than failing the whole link.
+ * @param params The URL parameters to read
+ * @returns The decoded state, with defaults for anything missing
+ */
+function decodeUrlState(params: URLSearchParams): UrlState {
+  const state: UrlState = { filters: createEmptyFilters(), view: createDefaultViewState() };
+
+  const version = parseInt(params.get('v') || '', 10);
+  if (isNaN(version)) return state;
+  if (version > URL_STATE_VERSION) {
+    console.warn(`[urlUtils] Unsupported URL state version ${version}, ignoring view state`);
+    return state;
+  }
+
+  const getList = (key: string): string[] => {
+    const value = params.get(key);
+    return value ? value.split(LIST_SEPARATOR).filter(Boolean) : [];
+  };
+  const getRange = (key: string): [string, string] | null => {
+    const parts = (params.get(key) || '').split(RANGE_SEPARATOR);
+    return parts.length === 2 && parts[0] && parts[1] ? [parts[0], parts[1]] : null;
+  };
+
+  state.filters.countries = getList(STATE_PARAMS.countries);
+  state.filters.types = getList(STATE_PARAMS.types);
+  state.filters.languages = getList(STATE_PARAMS.languages);
+  state.filters.itemSets = getList(STATE_PARAMS.itemSets);
+  state.filters.categories = getList(STATE_PARAMS.categories);
+
+  const years = getRange(STATE_PARAMS.publicationYears);
+  if (years) {
+    const [start, end] = years.map(year => parseInt(year, 10));
+    if (!isNaN(start) && !isNaN(end) && start <= end) {
+      state.filters.publicationYears = [start, end];
+    }
+  }
+
+  const dates = getRange(STATE_PARAMS.createdDates);
+  if (dates && dates.every(date => DATE_PATTERN.test(date)) && dates[0] <= dates[1]) {
+    state.filters.createdDates = dates;
+  }
+
+  state.view.zoomPath = getList(STATE_PARAMS.zoomPath);
+  const chartMode = params.get(STATE_PARAMS.chartMode);
+  if (chartMode === 'pie' || chartMode === 'donut') {
+    state.view.chartMode = chartMode;
+  }
+  const baselineMonth = params.get(STATE_PARAMS.baselineMonth);
+  if (baselineMonth && MONTH_PATTERN.test(baselineMonth)) {
+    state.view.baselineMonth = baselineMonth;
+  }
+  const timeGranularity = params.get(STATE_PARAMS.timeGranularity);
+  if (TIME_GRANULARITIES.includes(timeGranularity as TimeGranularity)) {
+    state.view.timeGranularity = timeGranularity as TimeGranularity;
+  }
+  const timelineMode = params.get(STATE_PARAMS.timelineMode);
+  if (timelineMode === 'created' || timelineMode === 'published') {
+    state.view.timelineMode = timelineMode;
+  }
+  const publicationBin = params.get(STATE_PARAMS.publicationBin);
+  if (publicationBin === 'year' || publicationBin === 'decade') {
+    state.view.publicationBin = publicationBin;
+  }
+  const publicationStack = params.get(STATE_PARAMS.publicationStack);
+  if (publicationStack === 'country' || publicationStack === 'type') {
+    state.view.publicationStack = publicationStack;
+  }
+  const forecastMethod = params.get(STATE_PARAMS.forecastMethod);
+  if (FORECAST_METHODS.includes(forecastMethod as ForecastMethod)) {
+    state.view.forecastMethod = forecastMethod as ForecastMethod;
+  }
+  const forecastHorizon = parseInt(params.get(STATE_PARAMS.forecastHorizon) || '', 10);
+  if (FORECAST_HORIZONS.includes(forecastHorizon)) {
+    state.view.forecastHorizon = forecastHorizon;
+  }
+
+  return state;
+}
 
 /**
  * Generates a URL for a specific language and tab combination
- * @param lang The language code ('en' or 'fr')
+ * @param lang The language code (one of LANGUAGES)
  * @param tab The tab ID
  * @param baseUrl Optional base URL (defaults to current location)
- * @returns The full URL with language and tab parameters
+ * @param state Optional filters and view state to encode
+ * @returns The full URL with language, tab and state parameters
  */
-export function generateUrl(lang: Language, tab: string, baseUrl?: string): string {
+export function generateUrl(lang: Language, tab: string, baseUrl?: string, state?: UrlState): string {
   // Use provided baseUrl or current location
   const url = new URL(baseUrl || window.location.href);
-  
+
   // Set language and tab parameters
   url.searchParams.set('lang', lang);
   url.searchParams.set('tab', tab);
-  
+
+  if (state) {
+    encodeUrlState(url.searchParams, state);
+  }
+
   return url.toString();
 }
 
 /**
- * Parses URL parameters to extract language and tab
- * @returns Object containing language and tab from URL parameters
+ * Parses URL parameters to extract language, tab and view state
+ * @returns Object containing language, tab and view state from URL parameters
  */
-export function parseUrlParams(): { lang: Language | null, tab: string | null } {
-  if (typeof window === 'undefined') return { lang: null, tab: null };
-  
+export function parseUrlParams(): { lang: Language | null, tab: string | null, state: UrlState } {
+  if (typeof window === 'undefined') {
+    return { lang: null, tab: null, state: { filters: createEmptyFilters(), view: createDefaultViewState() } };
+  }
+
   const urlParams = new URLSearchParams(window.location.search);
-  const langParam = urlParams.get('lang') as Language | null;
+  const langParam = urlParams.get('lang');
   const tabParam = urlParams.get('tab');
-  
+
   // Only return valid language values
-  const validLang = langParam === 'en' || langParam === 'fr' ? langParam : null;
-  
-  return { 
-    lang: validLang, 
-    tab: tabParam 
+  const validLang = langParam && isLanguage(langParam) ? langParam : null;
+
+  return {
+    lang: validLang,
+    tab: tabParam,
+    state: decodeUrlState(urlParams)
   };
 }
 
 /**
- * Updates the current URL with language and tab parameters
+ * Makes the next URL update replace the current history entry instead of adding one.
+ * Use it for high-frequency changes such as slider drags so history isn't flooded.
+ */
+export function replaceNextUrlUpdate(): void {
+  replaceNextUpdate = true;
+}
+
+/**
+ * Updates the current URL with language, tab and state parameters
  * @param lang The language code
  * @param tab The tab ID
+ * @param state Optional filters and view state to encode
+ * @param replace Replace the current history entry instead of adding one
  */
-export function updateUrl(lang: Language, tab: string): void {
+export function updateUrl(lang: Language, tab: string, state?: UrlState, replace: boolean = false): void {
   if (typeof window === 'undefined') return;
-  
-  const url = generateUrl(lang, tab);
-  
+
+  const url = generateUrl(lang, tab, undefined, state);
+  replace = replace || replaceNextUpdate;
+  replaceNextUpdate = false;
+
+  // Skip no-op updates so history is not flooded with duplicate entries
+  if (url === window.location.href) return;
+
   // Update URL without reloading the page
-  window.history.pushState({}, '', url);
-} 
\ No newline at end of file
+  if (replace) {
+    window.history.replaceState({}, '', url);
+  } else {
+    window.history.pushState({}, '', url);
+  }
+}
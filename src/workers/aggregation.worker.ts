@@ -0,0 +1,56 @@
+/**
+ * Aggregation worker: keeps its own copy of the items and answers
+ * group/count/time-series queries off the main thread.
+ */
+import type { OmekaItem } from '../types/OmekaItem';
+import type { AggregationQuery, AggregationRequest, AggregationResponse } from '../types/AggregationQuery';
+import { runAggregationQuery } from './aggregationQueries';
+
+let itemsById = new Map<number, OmekaItem>();
+
+// Queries waiting to run, in arrival order
+const queue: { id: number; query: AggregationQuery }[] = [];
+let isScheduled = false;
+
+function respond(message: AggregationResponse) {
+    self.postMessage(message);
+}
+
+// Run one query per task so that cancel messages received meanwhile
+// can drop superseded queries before they start
+function scheduleNext() {
+    if (isScheduled || queue.length === 0) return;
+    isScheduled = true;
+
+    setTimeout(() => {
+        isScheduled = false;
+        const next = queue.shift();
+        if (next) {
+            try {
+                respond({ type: 'result', id: next.id, result: runAggregationQuery(itemsById, next.query) });
+            } catch (error) {
+                respond({ type: 'error', id: next.id, message: error instanceof Error ? error.message : String(error) });
+            }
+        }
+        scheduleNext();
+    }, 0);
+}
+
+self.onmessage = (event: MessageEvent<AggregationRequest>) => {
+    const message = event.data;
+
+    switch (message.type) {
+        case 'setItems':
+            itemsById = new Map(message.items.map(item => [item.id, item]));
+            break;
+        case 'query':
+            queue.push({ id: message.id, query: message.query });
+            scheduleNext();
+            break;
+        case 'cancel': {
+            const index = queue.findIndex(entry => entry.id === message.id);
+            if (index !== -1) queue.splice(index, 1);
+            break;
+        }
+    }
+};
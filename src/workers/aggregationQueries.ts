@@ -0,0 +1,54 @@
+import type { OmekaItem } from '../types/OmekaItem';
+import type { AggregationQuery, AggregationResult } from '../types/AggregationQuery';
+import { createDataProcessor } from '../utils/dataProcessing';
+
+/**
+ * Runs an aggregation query with the synchronous functions of dataProcessing.ts.
+ * Used by the worker, and on the main thread when workers are unavailable.
+ * @param itemsById The loaded items indexed by id
+ * @param query The query to run
+ * @returns The result of the matching useDataProcessing function
+ */
+export function runAggregationQuery(itemsById: Map<number, OmekaItem>, query: AggregationQuery): AggregationResult {
+    const items: OmekaItem[] = [];
+    // Position of each item in itemIds, which is also the position of its keys and value
+    const positions = new Map<OmekaItem, number>();
+    query.itemIds.forEach((id, position) => {
+        const item = itemsById.get(id);
+        if (item) {
+            items.push(item);
+            positions.set(item, position);
+        }
+    });
+    const positionOf = (item: OmekaItem) => positions.get(item)!;
+
+    // The custom filter function ran on the main thread, the required fields are checked here
+    const { groupAndCount, groupHierarchically, processTimeData } = createDataProcessor(query.options);
+
+    switch (query.kind) {
+        case 'groupAndCount': {
+            const { keys } = query;
+            return groupAndCount(items, item => keys[positionOf(item)], query.totalItems);
+        }
+        case 'groupHierarchically': {
+            const { keys, values } = query;
+            const levels = keys[0]?.length ?? 0;
+            return groupHierarchically(
+                items,
+                Array.from({ length: levels }, (_, level) => (item: OmekaItem) => keys[positionOf(item)][level]),
+                query.totalItems,
+                values ? item => values[positionOf(item)] : undefined
+            );
+        }
+        case 'timeSeries':
+            return processTimeData(items, query.dateField, {
+                startDate: query.startDate,
+                endDate: query.endDate,
+                includeCumulative: query.includeCumulative,
+                initialTotal: query.initialTotal,
+                granularity: query.granularity,
+                locale: query.locale,
+                countEarlierItems: query.countEarlierItems
+            });
+    }
+}